@@ -7,7 +7,11 @@ import { build } from 'esbuild'
 const pkg = JSON.parse(fs.readFileSync('./package.json', 'utf8'))
 
 export default defineConfig({
-  input: 'src/index.ts',
+  input: {
+    'index': 'src/index.ts',
+    'testing': 'src/testing/index.ts',
+    'testing-setup': 'src/testing/setup.ts',
+  },
   plugins: [
     esbuild({ define: { '__VERSION__': `"${pkg.version}"` } }),
     nodeResolve(),
@@ -30,8 +34,8 @@ export default defineConfig({
     ...pkg.dependencies,
   })),
   output: [
-    { file: 'dist/index.js', format: 'cjs' },
-    { file: 'dist/index.mjs', format: 'esm' },
+    { dir: 'dist', format: 'cjs', entryFileNames: '[name].js', chunkFileNames: '[name]-[hash].js' },
+    { dir: 'dist', format: 'esm', entryFileNames: '[name].mjs', chunkFileNames: '[name]-[hash].mjs' },
   ],
 })
 
@@ -1,10 +1,13 @@
 import type { ReadonlyTeleBox } from "@netless/telebox-insider"
-import type { Displayer, Event as WhiteEvent, Player, Room } from "white-web-sdk"
+import { AnimationMode, ScenePathType, toJS, type Camera, type Displayer, type Event as WhiteEvent, type Player, type Room, type View } from "white-web-sdk"
 import type { App } from "./app"
+import type { Permissions } from "./window-manager"
 import Emittery from "emittery"
 import { disposableStore } from "@wopjs/disposable"
-import { Storage, type Diff } from './synced-store'
+import { kStorage, Storage, type Diff, type QuotaExceeded, type StorageOptions, type StorageQuota } from './synced-store'
 import { optionsMap } from "./app-registry"
+import { isRoomWritable, listenView } from "./invisible-plugin"
+import { byteSize, debounced } from "./utils"
 
 export interface MagixEventMessage<Events = {}, K extends keyof Events & string = keyof Events & string> {
   event: K
@@ -23,46 +26,133 @@ export interface NetlessAppContext<State = {}, Events = {}, Options = {}> {
   readonly appId: string
   readonly isAddApp: boolean
   readonly now: number
+  /// `true` when replaying, i.e. `player` is available.
+  readonly isReplay: boolean
+  /// Replay only, the playback position in milliseconds. It is `0` in a live room.
+  readonly progressTime: number
   readonly box: ReadonlyTeleBox
   readonly options: Options
+  /// The current user's permissions, apps can disable their own UI by them.
+  readonly permissions: Permissions
 
   readonly state: State
   setState(partial: Partial<State>): void
   on(event: "stateChanged", callback: (diff: Diff<State>) => void): () => void
   on(event: "close", callback: () => void): () => void
+  on(event: "seek", callback: (progressTime: number) => void): () => void
+  on(event: "permissionsChange", callback: (permissions: Permissions) => void): () => void
+
+  /// Replay only, called when the user jumps to another position of the recording.
+  /// Media apps can sync their own timeline here, see also `progressTime`.
+  onSeek(callback: (progressTime: number) => void): () => void
 
   dispatchEvent<K extends keyof Events & string>(event: K, payload: Events[K]): void
   addEventListener<K extends keyof Events & string>(event: K, callback: (message: MagixEventMessage<Events, K>) => void): () => void
 
-  connectStorage<State extends Record<string, any>>(namespace?: string, defaultState?: State): Storage<State>
+  /// Pass `{ optimistic: true }` to apply writes locally before the storage is writable, see `StorageOptions`.
+  connectStorage<State extends Record<string, any>, Events = {}>(namespace?: string, defaultState?: State, options?: StorageOptions): Storage<State, Events>
+
+  /// Create a whiteboard view in `options.dom`, its camera is synced with all clients.
+  /// The view is released when the app is closed.
+  createView(options: CreateViewOptions): View
+}
+
+export interface CreateViewOptions {
+  /// The element to render the whiteboard, usually mounted by `context.box.mountContent()`.
+  dom: HTMLDivElement
+  /// The scene to display, default is `"/{appId}/main"`. The scene will be created if it does not exist.
+  scenePath?: string
+  /// Storage namespace to sync the camera, change it when creating multiple views. Default is `"view"`.
+  key?: string
 }
 
 export interface AppEvents<State = {}> {
   stateChanged: Diff<State>
   close: undefined
+  seek: number
+  permissionsChange: Permissions
 }
 
 export class AppContext<S = {}, E = {}, O = {}> implements NetlessAppContext<S, E, O> {
   readonly dispose = disposableStore()
-  readonly storage = new Storage(this.manager.options.plugin$, this.appId, this.app.state)
+  // Options of the main storage, `optimistic` and `timeout` are set by `NetlessApp.storage` when the app is loaded.
+  readonly storageOptions: StorageOptions = { quota: this.quota(this.appId) }
+  readonly storage = this.dispose.add(new Storage(this.manager.options.plugin$, this.appId, this.app.state, this.storageOptions))
+  // Listeners, storages and views created by the running `setup()`, disposed before it runs again, see `App.cleanup()`.
+  readonly setupDispose = this.dispose.add(disposableStore())
   readonly events = new Emittery<AppEvents<S>>()
-  readonly on = this.events.on.bind(this.events)
+  // Connected storages by namespace and sizes of the others, see `storageSize()`.
+  readonly storages = new Map<string, Storage<any, any>>([[this.appId, this.storage]])
+  readonly sizes = new Map<string, number>()
 
-  constructor(readonly app: App) {}
+  constructor(readonly app: App) {
+    this.dispose.add(this.storage.on('stateChanged', diff => this.events.emit('stateChanged', diff)))
+    this.dispose.add(this.storage.on('quotaExceeded', this.onQuotaExceeded))
+    this.dispose.add(this.manager.events.on('seek', progressTime => this.events.emit('seek', progressTime)))
+    this.dispose.add(this.manager.events.on('permissionsChange', permissions => this.events.emit('permissionsChange', permissions)))
+  }
 
   get manager() { return this.app.manager }
   get room() { return this.manager.room }
   get player() { return this.manager.player }
   get displayer() { return this.manager.displayer }
   get now() { return this.manager.now }
+  get isReplay() { return !!this.player }
+  get progressTime() { return this.player?.progressTime || 0 }
 
   get kind() { return this.app.kind }
   get appId() { return this.app.id }
   get isAddApp() { return this.app.isAddApp }
   get box() { return this.app.box }
   get options() { return (optionsMap.get(this.app.kind) || {}) as O }
+  get permissions() { return this.manager.permissions }
   get state() { return this.storage.state as S }
 
+  // Storages of an app share the quota, see `WindowManagerOptions.storageQuota`.
+  quota(namespace: string): StorageQuota | undefined {
+    const quotas = this.manager.options.storageQuota, limit = quotas?.[this.kind] ?? quotas?.['*']
+    if (limit != null) return { limit, others: () => this.storageSize(namespace) }
+  }
+
+  // Bytes of all storages of this app, except `namespace`.
+  storageSize(except: string): number {
+    const all = this.manager.attributes[kStorage] || {}
+    let size = 0
+    for (const namespace of Object.keys(all)) {
+      if (namespace === except || namespace.split(':')[0] !== this.appId) continue
+      const storage = this.storages.get(namespace)
+      size += storage ? storage.size : this.remoteStorageSize(namespace)
+    }
+    return size
+  }
+
+  // Storages not connected by this client are measured when they change.
+  remoteStorageSize(namespace: string): number {
+    if (!this.sizes.has(namespace)) {
+      this.dispose.add(this.manager.reaction(() => toJS(this.manager.attributes[kStorage]?.[namespace]), (value: unknown) => {
+        this.sizes.set(namespace, byteSize(value))
+      }, { fireImmediately: true }))
+    }
+    return this.sizes.get(namespace) || 0
+  }
+
+  onQuotaExceeded = (data: QuotaExceeded) => {
+    this.manager.events.emit('quotaExceeded', { appId: this.appId, kind: this.kind, ...data })
+  }
+
+  on<K extends keyof AppEvents<S>>(event: K, callback: (data: AppEvents<S>[K]) => void): () => void {
+    const off = this.events.on(event, callback)
+    const dispose = () => {
+      this.setupDispose.remove(dispose)
+      off()
+    }
+    return this.setupDispose.add(dispose)
+  }
+
+  onSeek(callback: (progressTime: number) => void): () => void {
+    return this.on('seek', callback)
+  }
+
   setState(partial: Partial<S>) {
     this.storage.setState(partial)
   }
@@ -72,12 +162,59 @@ export class AppContext<S = {}, E = {}, O = {}> implements NetlessAppContext<S,
   }
 
   addEventListener<K extends keyof E & string>(event: K, callback: (message: MagixEventMessage<E, K>) => void): () => void {
-    return this.manager.addEventListener(this.appId + ':' + event, callback as any)
+    const off = this.manager.addEventListener(this.appId + ':' + event, callback as any)
+    const dispose = () => {
+      this.setupDispose.remove(dispose)
+      off()
+    }
+    return this.setupDispose.add(dispose)
   }
 
-  connectStorage<State extends Record<string, any>>(namespace: string, defaultState?: State): Storage<State> {
-    const storage = this.dispose.add(new Storage(this.manager.options.plugin$, this.appId + ':' + namespace, defaultState))
-    storage.on('disconnected', () => this.dispose.remove(storage))
+  connectStorage<State extends Record<string, any>, Events = {}>(namespace: string, defaultState?: State, options?: StorageOptions): Storage<State, Events> {
+    namespace = this.appId + ':' + namespace
+    const storage = this.setupDispose.add(new Storage<State, Events>(this.manager.options.plugin$, namespace, defaultState, { ...options, quota: this.quota(namespace) }))
+    this.storages.set(namespace, storage)
+    storage.on('disconnected', () => {
+      this.setupDispose.remove(storage)
+      if (this.storages.get(namespace) === storage) this.storages.delete(namespace)
+    })
+    storage.on('quotaExceeded', this.onQuotaExceeded)
     return storage
   }
+
+  createView({ dom, scenePath = '/' + this.appId + '/main', key = 'view' }: CreateViewOptions): View {
+    const { displayer } = this
+    const view = displayer.views.createView()
+    this.setupDispose.add(() => view.release())
+
+    if (this.isAddApp && isRoomWritable(displayer) && displayer.scenePathType(scenePath) === ScenePathType.None) {
+      const index = scenePath.lastIndexOf('/')
+      displayer.putScenes(scenePath.slice(0, index) || '/', [{ name: scenePath.slice(index + 1) }])
+    }
+    view.focusScenePath = scenePath
+    view.divElement = dom
+
+    // Same as the main view, `state.camera.scale * localScaleFactor` = `view.camera.scale`.
+    const localScaleFactor = () => (view.size.width || this.manager.baseWidth) / this.manager.baseWidth
+    const storage = this.connectStorage<{ camera?: Camera & { id: number } }>(key)
+
+    const syncCameraToLocal = (animationMode?: AnimationMode) => {
+      const { centerX = 0, centerY = 0, scale = 1 } = storage.state.camera || {}
+      view.moveCamera({ centerX, centerY, scale: scale * localScaleFactor(), animationMode })
+    }
+
+    const syncCameraToRemote = this.setupDispose.add(debounced(() => {
+      const camera = view.camera, scale = camera.scale / localScaleFactor()
+      storage.setState({ camera: { centerX: camera.centerX, centerY: camera.centerY, scale, id: displayer.observerId } })
+    }, 100))
+
+    syncCameraToLocal(AnimationMode.Immediately)
+    this.setupDispose.add(storage.on('stateChanged', diff => {
+      if (diff.camera && storage.state.camera?.id !== displayer.observerId) syncCameraToLocal()
+    }))
+    this.setupDispose.add(listenView(displayer, view, 'onCameraUpdatedByDevice', syncCameraToRemote))
+    this.setupDispose.add(listenView(displayer, view, 'onSizeUpdated', () => syncCameraToLocal(AnimationMode.Immediately)))
+
+    return view
+  }
 }
@@ -1,18 +1,39 @@
 import type { NetlessAppContext } from "./app-context"
+import type { StorageOptions } from "./synced-store"
 import { reactiveMap } from "value-enhancer/collections"
+import { sandboxed } from "./sandbox"
 
 export interface NetlessApp<State = {}, Events = {}, Options = {}> {
   readonly kind: string
+  /// Version of the state shape, increase it when the shape changes. Default is `0`.
+  readonly version?: number
+  /// Upgrade the state stored by an older version, it is called before `setup()`.
+  migrate?(oldState: any, fromVersion: number): State
+  /// Options of the app's main storage, i.e. `context.state` and `context.setState()`.
+  /// Pass `{ optimistic: true }` to apply `setState()` locally before the room is writable.
+  readonly storage?: Pick<StorageOptions, 'optimistic' | 'timeout'>
+  /// Return a cleanup function to release what `setup()` created, it is called when the app is closed
+  /// or its definition is replaced with the `hotReload` option.
   setup(context: NetlessAppContext<State, Events, Options>): any
 }
 
 export const isNetlessApp = (a: any): a is NetlessApp =>
   a && typeof a.kind === 'string' && typeof a.setup === 'function'
 
-interface RemoteNetlessApp {
+export interface RemoteNetlessApp {
   readonly kind: string
+  /// Script URL, put the version in it (e.g. `"counter@1.2.0.js"`) so that caches can tell versions apart.
+  /// With `format: "esm"`, it can also be a bare specifier resolved by the page's import map, e.g. `"counter"`.
   readonly src: string
+  /// Global variable name of the app in `"iife"` and `"umd"` scripts, default is `"NetlessApp{kind}"`.
   readonly name?: string
+  /// How to evaluate the script, default is `"esm"` for `.mjs` URLs, otherwise `"iife"`.
+  readonly format?: 'esm' | 'iife' | 'umd'
+  /// Subresource integrity of the script, e.g. `"sha384-..."`. The app fails to load if it does not match.
+  readonly sri?: string
+  /// Run the script in a sandboxed iframe instead of the host page. Default is `false`.
+  /// Only `state`, `setState()`, events, `connectStorage()` and `box.mount*()` are available in the context.
+  readonly sandbox?: boolean
 }
 
 export const isRemoteNetlessApp = (a: any): a is RemoteNetlessApp =>
@@ -32,36 +53,161 @@ export const registry = reactiveMap<string, () => Promise<NetlessApp>>()
 /// @internal
 export const optionsMap = new Map<string, {}>()
 
+let allowedOrigins: string[] | null = null
+
+/// Only allow remote apps from these origins, e.g. `["https://apps.example.com"]`.
+/// Pass `null` to allow all origins, which is the default.
+export const setAllowedOrigins = (origins: string[] | null) => {
+  allowedOrigins = origins && origins.map(origin => new URL(origin).origin)
+}
+
+let cacheName: string | null = null
+
+/// Also cache remote scripts in the `CacheStorage` with this name, pass `null` to only cache them in memory,
+/// which is the default. Entries are never revalidated, so only use it with versioned URLs.
+export const setCacheStorage = (name: string | null) => {
+  cacheName = name
+}
+
+// Bare specifiers like "counter" are resolved by the import map, which is controlled by the page.
+const isBareSpecifier = (src: string) => !/^(\.{0,2}\/|[a-z][a-z\d+.-]*:)/i.test(src)
+
+const formatOf = ({ src, format }: RemoteNetlessApp) => format || (src.endsWith('.mjs') ? 'esm' : 'iife')
+
+const assertAllowedOrigin = (def: RemoteNetlessApp) => {
+  const src = def.src
+  if (formatOf(def) === 'esm' && isBareSpecifier(src)) return
+  const origin = new URL(src, location.href).origin
+  if (allowedOrigins && !allowedOrigins.includes(origin)) {
+    throw new Error(`[WindowManager]: remote app from ${origin} is not allowed`)
+  }
+}
+
 export const register = (def: NetlessApp | AsyncNetlessApp | RemoteNetlessApp, options?: {}) => {
   if (options) {
     optionsMap.set(def.kind, options)
   }
+  // Registering a kind again (e.g. with `hotReload`) fetches its script again.
+  const key = remoteSources.get(def.kind)
+  if (key) texts.delete(key)
   if (isNetlessApp(def)) {
     registry.set(def.kind, () => Promise.resolve(def))
   } else if (isAsyncNetlessApp(def)) {
     registry.set(def.kind, () => Promise.resolve().then(def.src))
   } else if (isRemoteNetlessApp(def)) {
-    registry.set(def.kind, () => fromScript(def))
+    assertAllowedOrigin(def)
+    remoteSources.set(def.kind, cacheKey(def.src, def.sri))
+    // Share one load between concurrent calls, forget it on failure so that the next call can retry.
+    let loading: Promise<NetlessApp> | undefined
+    registry.set(def.kind, () => loading ||= retry(() => fromScript(def)).catch(error => {
+      loading = undefined
+      throw error
+    }))
   } else {
     console.warn('[WindowManager]: not a valid netless app', def)
     throw new Error('[WindowManager]: not a valid netless app')
   }
 }
 
-const fromScript = async ({ kind, src, name }: RemoteNetlessApp): Promise<NetlessApp> => {
-  name ||= 'NetlessApp' + kind
-  if (src.endsWith('.mjs')) {
-    return fromModule(await import(/* @vite-ignore */ src + '?' + Date.now()))
+// Cache keys of registered kinds, so that `unregister()` can forget the cached script.
+const remoteSources = new Map<string, string>()
+const texts = new Map<string, Promise<string>>()
+
+// Kinds whose modules have been imported by URL, importing them again (i.e. registered again) skips the module cache.
+const imported = new Set<string>()
+
+const withQuery = (src: string, query: string) => src + (src.includes('?') ? '&' : '?') + query
+
+// Scripts are cached by both `src` and `sri`, so that a script checked by one `sri` (or none)
+// is never returned for another one. The key is also an URL for the `CacheStorage`.
+const cacheKey = (src: string, sri?: string) =>
+  sri ? withQuery(src, 'sri=' + encodeURIComponent(sri)) : src
+
+/// Remove the definition of `kind`, running apps are not affected, new ones of this kind keep loading
+/// until it is registered again. The in-memory cache of its remote script is also cleared.
+export const unregister = (kind: string) => {
+  const key = remoteSources.get(kind)
+  if (key) texts.delete(key)
+  remoteSources.delete(kind)
+  optionsMap.delete(kind)
+  registry.delete(kind)
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+// Retry after 1s, 2s, 4s...
+const retry = async <T>(fn: () => Promise<T>, times = 3, delay = 1000): Promise<T> => {
+  for (let i = 1; ; i++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (i >= times) throw error
+      console.warn(`[WindowManager]: load failed, retry in ${delay}ms`, error)
+      await sleep(delay)
+      delay *= 2
+    }
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => Promise.race([
+  promise,
+  sleep(ms).then(() => { throw new Error(`[WindowManager]: load timeout after ${ms}ms`) }),
+])
+
+const fromScript = async (def: RemoteNetlessApp): Promise<NetlessApp> => {
+  const { kind, src, sri, sandbox } = def, format = formatOf(def), name = def.name || 'NetlessApp' + kind
+  // Without `sri` or `sandbox`, let the browser fetch and cache modules, which also makes import maps work.
+  if (format === 'esm' && !sri && !sandbox) {
+    // Bare specifiers can not have a query, they are resolved by the import map, so they are not reloaded.
+    const url = imported.has(kind) && !isBareSpecifier(src) ? withQuery(src, 't=' + Date.now()) : src
+    imported.add(kind)
+    return fromModule(await withTimeout(import(/* @vite-ignore */ url), 10_000))
+  }
+  if (format === 'esm' && isBareSpecifier(src)) {
+    throw new Error(`[WindowManager]: bare specifier "${src}" can not be used with sri or sandbox`)
   }
-  let response = await fetch(src, {
+  const text = await fetchText(src, sri)
+  if (sandbox) return sandboxed(kind, text, name, format === 'esm')
+  if (format === 'esm') return fromModule(await importText(text))
+  if (format === 'umd') return executeUMD(src, text, name)
+  return execute(src, text, name)
+}
+
+// Fetch the script once per `src` and `sri`, failed fetches are not cached.
+const fetchText = (src: string, sri?: string): Promise<string> => {
+  const key = cacheKey(src, sri)
+  let text = texts.get(key)
+  if (!text) {
+    texts.set(key, text = fetchCached(src, sri))
+    text.catch(() => texts.delete(key))
+  }
+  return text
+}
+
+const fetchCached = async (src: string, sri?: string): Promise<string> => {
+  const cache = cacheName && typeof caches !== 'undefined' ? await caches.open(cacheName).catch(() => null) : null
+  const key = cacheKey(src, sri)
+  const cached = await cache?.match(key)
+  if (cached) return cached.text()
+  const response = await fetch(src, {
     signal: AbortSignal.timeout(10_000),
     headers: { 'content-type': 'text/plain' },
+    integrity: sri,
   })
-  let text = await response.text()
-  if (response.ok) {
-    return execute(src, text, name)
+  if (!response.ok) throw new Error(await response.text())
+  // Only responses that passed the integrity check get here.
+  if (cache) await cache.put(key, response.clone()).catch(console.warn)
+  return response.text()
+}
+
+// Modules checked by `sri` can not be imported by URL, otherwise the browser may download a different one.
+const importText = async (text: string): Promise<any> => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/javascript' }))
+  try {
+    return await import(/* @vite-ignore */ url)
+  } finally {
+    URL.revokeObjectURL(url)
   }
-  throw new Error(text)
 }
 
 const fromModule = (mod: any): NetlessApp => {
@@ -74,6 +220,21 @@ const fromModule = (mod: any): NetlessApp => {
   throw new Error('[WindowManager]: not found valid netless app')
 }
 
+// UMD scripts prefer CommonJS when `module` and `exports` exist, then fall back to the global variable.
+const executeUMD = (src: string, text: string, name: string): NetlessApp => {
+  const module = { exports: {} as any }
+  Function('module', 'exports', text)(module, module.exports)
+  const exports = module.exports
+  if (isNetlessApp(exports)) return exports
+  if (exports && (isNetlessApp(exports.default) || Object.keys(exports).some(k => isNetlessApp(exports[k])))) {
+    return fromModule(exports)
+  }
+  const app = globalThis[name]
+  if (isNetlessApp(app)) return app
+  console.warn('[WindowManager]: not return valid netless app', src)
+  throw new Error('[WindowManager]: not return valid netless app')
+}
+
 const execute = (src: string, text: string, name: string): NetlessApp => {
   let app = Function(text + '\n;return ' + name)()
   if (app == null) app = globalThis[name]
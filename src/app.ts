@@ -1,8 +1,9 @@
-import type { TeleBox, TeleBoxManager, TeleBoxManagerCreateConfig } from "@netless/telebox-insider"
+import { DefaultTitleBar, type TeleBox, type TeleBoxManager, type TeleBoxManagerCreateConfig, type TeleBoxState } from "@netless/telebox-insider"
 import type { WindowManager } from "./window-manager"
 import { disposableStore } from "@wopjs/disposable"
 import { flatten } from "value-enhancer"
-import { registry } from "./app-registry"
+import { toJS } from "white-web-sdk"
+import { registry, type NetlessApp } from "./app-registry"
 import { AppContext } from "./app-context"
 
 function createBox(manager: any, options?: TeleBoxManagerCreateConfig) {
@@ -13,18 +14,82 @@ function removeBox(manager: any, id: string) {
   (manager.telebox as TeleBoxManager).remove(id, true)
 }
 
+/// `"minimized"` and `"maximized"` only take effect when `perAppBoxState` is `true`.
+export type AppBoxState = TeleBoxState | 'hidden'
+
 export interface AppMeta {
+  kind: string
   title: string
   position: { x: number; y: number; width: number; height: number; z: number }
+  boxState?: AppBoxState
+  /// `NetlessApp.version` of the stored state, written after the app is loaded.
+  /// `null` means no client has loaded the app yet, the first writable one to load it saves its version.
+  /// Apps without this field are version `0`.
+  version?: number | null
   createdAt: number
 }
 
+export interface AppInfo {
+  id: string
+  kind: string
+  title: string
+  position: AppMeta['position']
+  boxState: AppBoxState
+  state: {}
+}
+
+export interface AppSetupError {
+  appId: string
+  kind: string
+  error: unknown
+}
+
+/// Texts shown in app windows, see `WindowManagerOptions.texts`.
+export interface Texts {
+  loading: string
+  retry: string
+  /// Shown with a retry button when the app fails to load.
+  loadFailed: (kind: string, message: string) => string
+}
+
+export const defaultTexts: Texts = {
+  loading: 'Loading...',
+  retry: 'Retry',
+  loadFailed: (kind, message) => `Failed to load ${kind}: ${message}`,
+}
+
+function statusView(text: string, retry?: { text: string, onclick: () => void }): HTMLDivElement {
+  const dom = document.createElement('div')
+  dom.className = 'netless-window-manager-app-status'
+  const message = document.createElement('p')
+  message.textContent = text
+  dom.appendChild(message)
+  if (retry) {
+    const button = document.createElement('button')
+    button.textContent = retry.text
+    button.onclick = retry.onclick
+    dom.appendChild(button)
+  }
+  return dom
+}
+
 export class App {
   readonly dispose = disposableStore()
   readonly definition = this.dispose.add(flatten(registry.$, map => map.get(this.kind)))
-  readonly box = createBox(this.manager, { id: this.id, title: this.title, visible: false })
+  readonly box = createBox(this.manager, {
+    id: this.id, title: this.title, visible: false,
+    draggable: this.manager.permissions.moveApp,
+    resizable: this.manager.permissions.resizeApp,
+  })
   readonly context = this.dispose.add(new AppContext(this))
   readonly result: any
+  readonly texts: Texts = { ...defaultTexts, ...this.manager.options.texts }
+
+  ready = false
+  closed = false
+  // Increased on each `load()`, so that a slow load does not override a newer one.
+  loadId = 0
+  boxState: AppBoxState = 'normal'
 
   constructor(
     readonly manager: WindowManager,
@@ -34,47 +99,148 @@ export class App {
     readonly title = kind + '-' + Math.random().toString(36).slice(2),
     readonly state: {} = {},
   ) {
-    // Run setup() once and only once.
-    const stop = this.dispose.add(this.definition.subscribe(async (def) => {
-      if (def) try {
-        const app = await def();
-        (this as { result: any }).result = app.setup(this.context)
-        this.box.setVisible(true)
-      } catch (error) {
-        console.error(error)
-        manager.events.emit('appSetupError', error)
-      } finally {
-        Promise.resolve().then(() => stop())
+    // Show the loading view until the definition is registered and loaded.
+    this.box.mountContent(statusView(this.texts.loading))
+
+    // Run setup() once and only once, unless it fails and the user clicks "Retry",
+    // or the definition is replaced with `hotReload` on.
+    let current: (() => Promise<NetlessApp>) | undefined
+    const stop = this.dispose.add(this.definition.subscribe((def) => {
+      if (def && def !== current) {
+        if (current) this.cleanup()
+        current = def
+        this.load(def)
+        if (!manager.options.hotReload) Promise.resolve().then(() => stop())
       }
     }))
 
-    // For creators, store attributes.apps[id] to trigger other clients creating this app.
-    if (isAddApp) {
-      this.manager.mergeAttributes({ apps: {} })
-      this.manager.updateAttributes(['apps', this.id], {
-        title: this.title,
-        position: {
-          x: this.box.intrinsicX,
-          y: this.box.intrinsicY,
-          width: this.box.intrinsicWidth,
-          height: this.box.intrinsicHeight,
-          z: this.box.zIndex,
-        },
-        createdAt: this.manager.now,
-      } satisfies AppMeta)
-    }
-
-    this.manager.reaction(() => this.manager.attributes['apps']?.[this.id], (meta?: AppMeta) => {
+    // Use `toJS()` to react on nested changes like `position.x`.
+    this.dispose.add(this.manager.reaction(() => toJS(this.manager.attributes['apps']?.[this.id]), (meta?: AppMeta) => {
       if (meta) {
         const { x, y, width, height, z } = meta.position;
         this.box.transform(x, y, width, height, true);
         this.box.setZIndex(z, true)
+        this.boxState = meta.boxState || 'normal'
+        this.applyBoxState()
       }
-    })
+    }, { fireImmediately: true }))
+
+    // Let screen readers and keyboard users know the windows, see `runShortcut()`.
+    this.box.$box.setAttribute('role', 'dialog')
+    this.box.$box.setAttribute('aria-label', this.title)
+    this.box.$box.tabIndex = -1
+
+    // Take over the title bar buttons. Close the app through `attributes.apps` so that `closeApp()` can check
+    // permissions, and with `perAppBoxState` change this app instead of the global state.
+    const titleBar = this.box.titleBar
+    if (titleBar instanceof DefaultTitleBar) {
+      const onEvent = titleBar.onEvent
+      titleBar.onEvent = (event) => {
+        if (event.type === 'close') {
+          manager.closeApp(id)
+        } else if (manager.options.perAppBoxState) {
+          manager.setAppBoxState(id, event.type === 'minimize' ? 'minimized' : this.boxState === 'maximized' ? 'normal' : 'maximized')
+        } else {
+          onEvent?.(event)
+        }
+      }
+    }
+  }
+
+  async load(def: () => Promise<NetlessApp>) {
+    const loading = statusView(this.texts.loading), id = ++this.loadId
+    this.box.mountContent(loading)
+    try {
+      const app = await def()
+      if (this.closed || id !== this.loadId) return
+      this.context.storageOptions.optimistic = app.storage?.optimistic
+      this.context.storageOptions.timeout = app.storage?.timeout
+      this.migrate(app);
+      (this as { result: any }).result = app.setup(this.context)
+      this.ready = true
+      // Apps that render in `box.$content` directly do not replace the loading view.
+      if (this.box.$userContent === loading) this.box.unmountContent()
+    } catch (error) {
+      console.error(error)
+      if (this.closed || id !== this.loadId) return
+      // Release what a failed `setup()` has created before it is retried.
+      this.context.setupDispose()
+      const message = error instanceof Error ? error.message : String(error)
+      this.box.mountContent(statusView(this.texts.loadFailed(this.kind, message), { text: this.texts.retry, onclick: () => this.load(def) }))
+      this.manager.events.emit('appSetupError', { appId: this.id, kind: this.kind, error })
+    }
+  }
+
+  /// Call the cleanup function returned by `setup()` and dispose the listeners, storages and views
+  /// it created through the context. The context and its main storage are kept.
+  cleanup() {
+    const result = this.result
+    this.ready = false;
+    (this as { result: any }).result = undefined
+    if (typeof result === 'function') try {
+      result()
+    } catch (error) {
+      console.error(error)
+    }
+    this.context.setupDispose()
+  }
+
+  /// Upgrade the stored state to `def.version` before `setup()`, writable clients save the result.
+  migrate(def: NetlessApp) {
+    const version = def.version || 0, meta: AppMeta | undefined = this.manager.attributes['apps']?.[this.id]
+    // Apps added just now already have the latest state shape, so does a pending one (`null`, created by others),
+    // whose version is then resolved by whoever loads it first, the creator may never load it (e.g. left the room).
+    const from = meta?.version ?? (this.isAddApp || meta?.version === null ? version : 0)
+    if (from < version && def.migrate) {
+      const state = def.migrate(structuredClone(this.context.state), from)
+      this.context.storage.replaceState(state)
+    } else if (from > version) {
+      console.warn(`[WindowManager]: app "${this.id}" has state of version ${from}, but the local "${this.kind}" is version ${version}`)
+    }
+    if (meta && meta.version !== version && from <= version) {
+      this.manager.updateAttributes(['apps', this.id, 'version'], version)
+    }
+  }
+
+  applyBoxState() {
+    const state = this.boxState
+    this.box.setVisible(state !== 'hidden')
+    if (this.manager.options.perAppBoxState) {
+      this.box.setMinimized(state === 'minimized', true)
+      this.box.setMaximized(state === 'maximized', true)
+    }
+  }
+
+  /// The current window's meta, creators store it in `attributes.apps[id]`
+  /// to trigger other clients creating this app.
+  get meta(): AppMeta {
+    return {
+      kind: this.kind,
+      title: this.title,
+      position: {
+        x: this.box.intrinsicX,
+        y: this.box.intrinsicY,
+        width: this.box.intrinsicWidth,
+        height: this.box.intrinsicHeight,
+        z: this.box.zIndex,
+      },
+      version: null,
+      createdAt: this.manager.now,
+    }
+  }
+
+  get info(): AppInfo {
+    const meta: AppMeta = this.manager.attributes['apps']?.[this.id] || this.meta
+    return { id: this.id, kind: this.kind, title: this.title, position: { ...meta.position }, boxState: this.boxState, state: this.context.state }
   }
 
   close() {
+    this.closed = true
     removeBox(this.manager, this.id)
-    this.context.events.emit('close')
+    // Emittery calls listeners later and skips removed ones, so clean up after "close" is received.
+    this.context.events.emit('close').catch(console.error).then(() => {
+      this.cleanup()
+      this.dispose()
+    })
   }
 }
@@ -0,0 +1,66 @@
+/// Do something and return the operation to revert it, or nothing if there is nothing to revert.
+export type Operation = () => Operation | void
+
+/// Local undo/redo stacks of the current user's operations.
+export class History {
+  readonly undoStack: Operation[] = []
+  readonly redoStack: Operation[] = []
+  // Changes made by undo() and redo() themselves must not be recorded.
+  applying = false
+
+  constructor(readonly onChange: () => void, readonly limit = 100) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /// Record the inverse of an operation that was just done, this clears the redo stack.
+  push(inverse: Operation | void) {
+    if (!inverse || this.applying) return
+    this.undoStack.push(inverse)
+    if (this.undoStack.length > this.limit) this.undoStack.shift()
+    this.redoStack.length = 0
+    this.onChange()
+  }
+
+  undo(): boolean {
+    const operation = this.undoStack.pop()
+    if (operation) {
+      this.applying = true
+      let inverse: Operation | void
+      try {
+        inverse = operation()
+      } finally {
+        this.applying = false
+      }
+      if (inverse) this.redoStack.push(inverse)
+      this.onChange()
+    }
+    return !!operation
+  }
+
+  redo(): boolean {
+    const operation = this.redoStack.pop()
+    if (operation) {
+      this.applying = true
+      let inverse: Operation | void
+      try {
+        inverse = operation()
+      } finally {
+        this.applying = false
+      }
+      if (inverse) this.undoStack.push(inverse)
+      this.onChange()
+    }
+    return !!operation
+  }
+
+  clear() {
+    this.undoStack.length = this.redoStack.length = 0
+    this.onChange()
+  }
+}
@@ -1,3 +1,7 @@
 export * from './invisible-plugin'
 export * from './window-manager'
 export * from './app-registry'
+export * from './shortcuts'
+export type { AppLayout } from './layout'
+export { defaultTexts } from './app'
+export type { AppBoxState, AppInfo, AppMeta, AppSetupError, Texts } from './app'
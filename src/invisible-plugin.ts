@@ -1,9 +1,26 @@
 import { disposableStore } from '@wopjs/disposable'
 import { derive, flatten, type ReadonlyVal } from 'value-enhancer'
 import { reactiveMap } from 'value-enhancer/collections'
-import { InvisiblePlugin, RoomPhase, isPlayer as isPlayer_, isRoom as isRoom_, type Displayer, type InvisiblePluginClass, type Player, type PlayerCallbacks, type Room, type RoomCallbacks, type View, type ViewCallbacks } from 'white-web-sdk'
+import { InvisiblePlugin, RoomPhase, isPlayer as isPlayer_, isRoom as isRoom_, listenUpdated, unlistenUpdated, type AkkoObjectUpdatedListener, type Displayer, type InvisiblePluginClass, type Player, type PlayerCallbacks, type Room, type RoomCallbacks, type View, type ViewCallbacks } from 'white-web-sdk'
+
+/// @internal The SDK checks rooms and attributes with `instanceof` of classes it does not export,
+/// fake rooms (e.g. `createMockRoom()` in `/testing`) register their own checks with `useAdapter()`.
+export interface DisplayerAdapter {
+  isRoom(displayer: Displayer): boolean
+  /// Like `listenUpdated()`, returns `undefined` if `object` does not come from this adapter.
+  listenUpdated(object: {}, listener: AkkoObjectUpdatedListener<any>): (() => void) | undefined
+}
+
+const adapters = new Set<DisplayerAdapter>()
 
-export const isRoom = (room: Displayer): room is Room => isRoom_(room)
+/// @internal
+export const useAdapter = (adapter: DisplayerAdapter) => {
+  adapters.add(adapter)
+  return () => { adapters.delete(adapter) }
+}
+
+export const isRoom = (room: Displayer): room is Room =>
+  isRoom_(room) || Array.from(adapters).some(adapter => adapter.isRoom(room))
 
 export const isPlayer = (room: Displayer): room is Player => isPlayer_(room)
 
@@ -45,6 +62,20 @@ export function listenPlayer<K extends keyof PlayerCallbacks>(player: Player, ev
   return () => player.callbacks.off(event, callback)
 }
 
+/// Listen to the changed props of an object in `attributes`.
+/// ```js
+/// const dispose = listenProps(plugin.attributes, actions => console.log(actions))
+/// onExit: dispose()
+/// ```
+export const listenProps = (object: {}, listener: AkkoObjectUpdatedListener<any>): () => void => {
+  for (const adapter of adapters) {
+    const stop = adapter.listenUpdated(object, listener)
+    if (stop) return stop
+  }
+  listenUpdated(object, listener)
+  return () => unlistenUpdated(object, listener)
+}
+
 /// ```js
 /// const dispose = listenView(room, view, 'event', callback)
 /// onExit: dispose()
@@ -0,0 +1,67 @@
+import type { AppMeta } from "./app"
+
+export type AppLayout = 'grid' | 'cascade' | 'side-by-side' | 'focus-one'
+
+type Position = AppMeta['position']
+
+/// @internal Compute positions (in the same normalized coordinates as `AppMeta.position`) for `ids`.
+/// In `"focus-one"` layout, `focused` takes the main area and others are stacked on the right.
+export const arrange = (layout: AppLayout, ids: string[], focused = ids[0], z = 100): { [id: string]: Partial<Position> } => {
+  const positions: { [id: string]: Partial<Position> } = {}, n = ids.length
+  if (n === 0) return positions
+
+  if (layout === 'grid') {
+    const cols = Math.ceil(Math.sqrt(n)), rows = Math.ceil(n / cols)
+    ids.forEach((id, i) => {
+      const col = i % cols, row = Math.floor(i / cols)
+      positions[id] = { x: col / cols, y: row / rows, width: 1 / cols, height: 1 / rows }
+    })
+  }
+
+  else if (layout === 'cascade') {
+    // Keep the last window fully inside the container.
+    const size = 0.6, step = Math.min(0.05, (1 - size) / Math.max(1, n - 1))
+    ids.forEach((id, i) => {
+      positions[id] = { x: i * step, y: i * step, width: size, height: size, z: z + i }
+    })
+  }
+
+  else if (layout === 'side-by-side') {
+    ids.forEach((id, i) => {
+      positions[id] = { x: i / n, y: 0, width: 1 / n, height: 1 }
+    })
+  }
+
+  else if (layout === 'focus-one') {
+    const others = ids.filter(id => id !== focused)
+    if (others.length === ids.length) return arrange(layout, ids, ids[0], z)
+    positions[focused] = { x: 0, y: 0, width: others.length ? 0.75 : 1, height: 1 }
+    others.forEach((id, i) => {
+      positions[id] = { x: 0.75, y: i / others.length, width: 0.25, height: 1 / others.length }
+    })
+  }
+
+  return positions
+}
+
+/// @internal Snap `rect` to the container's edges and the edges of `others` if they are closer than `threshold`.
+/// The threshold is also normalized, so it is usually different in x and y.
+export const snap = (rect: Position, others: Position[], threshold: { x: number; y: number }): { x: number; y: number } => {
+  const nearest = (value: number, candidates: number[], max: number) => {
+    let best = value, distance = max
+    for (const candidate of candidates) {
+      const d = Math.abs(candidate - value)
+      if (d <= distance) {
+        best = candidate
+        distance = d
+      }
+    }
+    return best
+  }
+  const xs = [0, 1 - rect.width], ys = [0, 1 - rect.height]
+  for (const other of others) {
+    xs.push(other.x, other.x + other.width, other.x - rect.width, other.x + other.width - rect.width)
+    ys.push(other.y, other.y + other.height, other.y - rect.height, other.y + other.height - rect.height)
+  }
+  return { x: nearest(rect.x, xs, threshold.x), y: nearest(rect.y, ys, threshold.y) }
+}
@@ -0,0 +1,154 @@
+import type { NetlessApp } from "./app-registry"
+import type { Storage } from "./synced-store"
+import { disposableStore } from "@wopjs/disposable"
+
+const kSandbox = '__WmSaNdBoX'
+
+// Runs inside the iframe, it is not transpiled so keep it plain ES5 (except `import()` for modules).
+// The app gets a proxied context, calls are forwarded to the host by `postMessage()`.
+const bootstrap = `(function () {
+  var K = '${kSandbox}', host = window.parent, context = null
+  var contextEvents = {}, magixEvents = {}, storages = {}
+  function post(data) { data[K] = 1; host.postMessage(data, '*') }
+  function on(map, name, fn) {
+    (map[name] = map[name] || []).push(fn)
+    return function () { var list = map[name], i = list.indexOf(fn); if (i >= 0) list.splice(i, 1) }
+  }
+  function emit(map, name, arg) {
+    (map[name] || []).slice().forEach(function (fn) { try { fn(arg) } catch (e) { console.error(e) } })
+  }
+  function mount(el) { document.body.appendChild(el); return box }
+  var box = {
+    mountContent: mount,
+    mountFooter: mount,
+    mountStyles: function (styles) {
+      if (typeof styles === 'string') { var el = document.createElement('style'); el.textContent = styles; styles = el }
+      document.head.appendChild(styles)
+      return box
+    }
+  }
+  function connectStorage(namespace, defaultState) {
+    var storage = storages[namespace]
+    if (!storage) {
+      var events = {}
+      storage = storages[namespace] = {
+        namespace: namespace,
+        state: defaultState || {},
+        events: events,
+        setState: function (partial) { post({ type: 'storageSetState', namespace: namespace, partial: partial }) },
+        resetState: function () { post({ type: 'storageResetState', namespace: namespace }) },
+        on: function (name, fn) { return on(events, name, fn) }
+      }
+      post({ type: 'connectStorage', namespace: namespace, defaultState: defaultState })
+    }
+    return storage
+  }
+  function load(data) {
+    if (data.module) {
+      var url = URL.createObjectURL(new Blob([data.text], { type: 'text/javascript' }))
+      return import(url).then(function (mod) {
+        if (mod.default && mod.default.setup) return mod.default
+        for (var k in mod) if (mod[k] && mod[k].setup) return mod[k]
+      })
+    }
+    var app = Function(data.text + '\\n;return ' + data.name)()
+    return Promise.resolve(app == null ? window[data.name] : app)
+  }
+  function start(data) {
+    context = {
+      appId: data.appId, kind: data.kind, isAddApp: data.isAddApp, options: data.options, state: data.state, box: box,
+      setState: function (partial) { post({ type: 'setState', partial: partial }) },
+      on: function (name, fn) { return on(contextEvents, name, fn) },
+      dispatchEvent: function (event, payload) { post({ type: 'dispatchEvent', event: event, payload: payload }) },
+      addEventListener: function (event, fn) {
+        if (!magixEvents[event]) post({ type: 'addEventListener', event: event })
+        return on(magixEvents, event, fn)
+      },
+      connectStorage: connectStorage
+    }
+    load(data).then(function (app) {
+      if (!app || typeof app.setup !== 'function') throw new Error('not found valid netless app')
+      app.setup(context)
+    }).catch(function (error) {
+      post({ type: 'error', message: String(error && error.message || error) })
+    })
+  }
+  window.addEventListener('message', function (e) {
+    var data = e.data, storage
+    if (e.source !== host || !data || !data[K]) return
+    if (data.type === 'init') start(data)
+    else if (!context) return
+    else if (data.type === 'state') { context.state = data.state; emit(contextEvents, 'stateChanged', data.diff) }
+    else if (data.type === 'event') emit(magixEvents, data.message.event, data.message)
+    else if (data.type === 'storageState' && (storage = storages[data.namespace])) {
+      storage.state = data.state
+      emit(storage.events, 'stateChanged', data.diff)
+    }
+    else if (data.type === 'close') emit(contextEvents, 'close')
+  })
+  post({ type: 'ready' })
+})()`
+
+const cloneable = (value: unknown): unknown => {
+  try {
+    return structuredClone(value)
+  } catch {
+    return void 0
+  }
+}
+
+/// @internal Create an app that runs `text` in a sandboxed iframe (without `allow-same-origin`), which is
+/// mounted as the box content. Only `state`, `setState()`, events, `connectStorage()` and the `mount*()`
+/// methods of `box` are available in the app.
+export const sandboxed = (kind: string, text: string, name: string, module: boolean): NetlessApp<any, any> => ({
+  kind,
+  setup(context) {
+    const dispose = disposableStore()
+    const storages = new Map<string, Storage<{}>>()
+
+    const iframe = document.createElement('iframe')
+    iframe.setAttribute('sandbox', 'allow-scripts')
+    iframe.setAttribute('title', context.box.title || kind)
+    iframe.style.cssText = 'display:block;width:100%;height:100%;border:0'
+    iframe.srcdoc = '<!doctype html><html><head><meta charset="utf-8"><style>html,body{margin:0;width:100%;height:100%;overflow:hidden}</style></head>'
+      + '<body><script>' + bootstrap + '</script></body></html>'
+
+    const post = (data: {}) => iframe.contentWindow?.postMessage({ ...data, [kSandbox]: 1 }, '*')
+    // There's no diff in the first message, make one from the whole state.
+    const diffOf = (state: {}) => Object.keys(state).reduce((diff, key) => (diff[key] = { newValue: state[key] }, diff), {})
+
+    const onMessage = (event: MessageEvent) => {
+      const data = event.data
+      if (event.source !== iframe.contentWindow || !data || !data[kSandbox]) return
+      if (data.type === 'ready') {
+        const { appId, isAddApp, state, options } = context
+        post({ type: 'init', text, name, module, appId, kind, isAddApp, state, options: cloneable(options) })
+      }
+      else if (data.type === 'setState') context.setState(data.partial)
+      else if (data.type === 'dispatchEvent') context.dispatchEvent(data.event, data.payload)
+      else if (data.type === 'addEventListener') {
+        const event = data.event
+        dispose.add(context.addEventListener(event, message => post({ type: 'event', message: { ...message, event } })))
+      }
+      else if (data.type === 'connectStorage' && !storages.has(data.namespace)) {
+        const storage = context.connectStorage(data.namespace, data.defaultState)
+        const namespace = data.namespace
+        storages.set(namespace, storage)
+        dispose.add(storage.on('stateChanged', diff => post({ type: 'storageState', namespace, state: storage.state, diff })))
+        post({ type: 'storageState', namespace, state: storage.state, diff: diffOf(storage.state) })
+      }
+      else if (data.type === 'storageSetState') storages.get(data.namespace)?.setState(data.partial)
+      else if (data.type === 'storageResetState') storages.get(data.namespace)?.resetState()
+      else if (data.type === 'error') console.error(`[WindowManager]: sandboxed app ${kind} failed:`, data.message)
+    }
+
+    window.addEventListener('message', onMessage)
+    dispose.add(() => window.removeEventListener('message', onMessage))
+    dispose.add(context.on('stateChanged', diff => post({ type: 'state', state: context.state, diff })))
+    dispose.add(context.on('close', () => post({ type: 'close' })))
+
+    context.box.mountContent(iframe)
+    // Called after "close", or before the next setup() with `hotReload`.
+    return dispose
+  },
+})
@@ -0,0 +1,66 @@
+/// Key combinations like `"Alt+W"` or `"Mod+Shift+Z"`, `Mod` is `Meta` on macOS and `Ctrl` elsewhere.
+/// Set an action to `null` to disable it.
+export interface Shortcuts {
+  focusNextApp: string | string[] | null
+  focusPrevApp: string | string[] | null
+  /// The actions below work on the focused app.
+  closeApp: string | string[] | null
+  maximizeApp: string | string[] | null
+  minimizeApp: string | string[] | null
+  nextPage: string | string[] | null
+  prevPage: string | string[] | null
+  /// Zoom the main whiteboard.
+  zoomIn: string | string[] | null
+  zoomOut: string | string[] | null
+}
+
+export type ShortcutAction = keyof Shortcuts
+
+export const defaultShortcuts: Shortcuts = {
+  focusNextApp: 'Alt+]',
+  focusPrevApp: 'Alt+[',
+  closeApp: 'Alt+W',
+  maximizeApp: 'Alt+M',
+  minimizeApp: 'Alt+N',
+  nextPage: 'PageDown',
+  prevPage: 'PageUp',
+  zoomIn: 'Alt+=',
+  zoomOut: 'Alt+-',
+}
+
+// `navigator.platform` is deprecated, use User-Agent Client Hints (Chromium only) and fall back to the user agent.
+const isMac = () => {
+  if (typeof navigator === 'undefined') return false
+  const platform = (navigator as { userAgentData?: { platform: string } }).userAgentData?.platform
+  return platform ? /^(macOS|iOS)$/.test(platform) : /Mac|iP(hone|ad|od)/.test(navigator.userAgent)
+}
+
+// `event.key` is changed by the Alt key on macOS (e.g. Alt+W = "∑"), so also compare `event.code`.
+const codes: { [key: string]: string } = { '[': 'BracketLeft', ']': 'BracketRight', '=': 'Equal', '-': 'Minus', ',': 'Comma', '.': 'Period', '/': 'Slash' }
+
+const codeOf = (key: string): string | undefined => {
+  if (/^[a-z]$/i.test(key)) return 'Key' + key.toUpperCase()
+  if (/^\d$/.test(key)) return 'Digit' + key
+  return codes[key]
+}
+
+const matchShortcut = (event: KeyboardEvent, shortcut: string): boolean => {
+  const parts = shortcut.split('+'), key = parts.pop() || '+'
+  const modifiers = new Set(parts.map(part => part.toLowerCase()))
+  if (modifiers.delete('mod')) modifiers.add(isMac() ? 'meta' : 'ctrl')
+  if (event.ctrlKey !== modifiers.has('ctrl') || event.altKey !== modifiers.has('alt') ||
+      event.shiftKey !== modifiers.has('shift') || event.metaKey !== modifiers.has('meta')) return false
+  return event.key.toLowerCase() === key.toLowerCase() || (!!event.code && event.code === codeOf(key))
+}
+
+/// @internal Find the first action that matches the keyboard event.
+export const findShortcut = (event: KeyboardEvent, shortcuts: Shortcuts): ShortcutAction | undefined => {
+  for (const action of Object.keys(shortcuts) as ShortcutAction[]) {
+    const value = shortcuts[action]
+    if (value && (Array.isArray(value) ? value : [value]).some(shortcut => matchShortcut(event, shortcut))) return action
+  }
+}
+
+/// @internal Do not steal keys from inputs in apps.
+export const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
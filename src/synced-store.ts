@@ -1,7 +1,9 @@
 import type { ReadonlyVal } from "value-enhancer"
+import type { MagixEventMessage } from "./app-context"
 import { disposableStore } from "@wopjs/disposable"
-import { listenUpdated, reaction, toJS, unlistenUpdated, type AkkoObjectUpdatedListener, type InvisiblePlugin } from "white-web-sdk"
-import { isRoomWritable } from "./invisible-plugin"
+import { reaction, toJS, UpdateEventKind, type AkkoObjectUpdatedListener, type InvisiblePlugin } from "white-web-sdk"
+import { isRoom, isRoomWritable, listenProps, listenRoom } from "./invisible-plugin"
+import { byteSize, isArray } from "./utils"
 
 const isObject = <O>(obj?: O): obj is O => typeof obj === 'object' && obj !== null
 
@@ -15,9 +17,23 @@ const has = <O, K extends string>(obj: O, key: K): obj is O & Record<K, Required
 
 const plainObjectKeys = Object.keys as <T>(o: T) => Array<keyof T & string>
 
-export type DiffOne<T> = { oldValue?: T, newValue: T }
+/// Changes of one item in a list, `oldIndex` is missing for new items and `newIndex` is missing for removed ones.
+export type ItemDiff<V> = { id: string, oldIndex?: number, newIndex?: number, oldValue?: V, newValue?: V }
+export type Path = readonly (string | number)[]
+/// A changed value inside the state, `path` starts with the top-level key.
+export type PathDiff = { path: Path, oldValue?: any, newValue?: any }
+/// `items` is only available for lists, see `Storage.pushItem()`. `changes` lists the changed nested values
+/// of objects, unchanged nested objects keep their references in the new value.
+export type DiffOne<T> = {
+  oldValue?: T, newValue: T,
+  items?: T extends readonly (infer V)[] ? ItemDiff<V>[] : never,
+  changes?: PathDiff[],
+}
 export type Diff<S> = { [K in keyof S]?: DiffOne<S[K]> }
 
+type ListKey<S> = { [K in keyof S]: S[K] extends readonly any[] ? K : never }[keyof S] & string
+type ItemOf<T> = T extends readonly (infer V)[] ? V : never
+
 const kRefine = '__IsReFiNe'
 
 type RefineValue<V = any> = { k: string, v: V, [kRefine]: 1 }
@@ -33,12 +49,106 @@ function makeRefineValue<V>(value: V, key = Math.random().toString().slice(2)):
   return { k: key, v: value, [kRefine]: 1 }
 }
 
+const kList = '__IsLiSt'
+
+// Each item is stored in its own key so that operations on different items do not override each other.
+// Items are sorted by `o` (then by id), `k` changes when `v` is replaced.
+type ListItem<V = any> = { v: V, o: number, k: string }
+type ListValue<V = any> = { items: { [id: string]: ListItem<V> }, [kList]: 1 }
+
+function isListValue(value: unknown): value is ListValue {
+  return isObject(value) && (value as ListValue)[kList] === 1
+}
+
+const randomKey = () => Math.random().toString(36).slice(2)
+
+// Bytes of the stored forms besides the keys and values: `{"k":,"v":,"__IsReFiNe":1}`,
+// `{"items":{},"__IsLiSt":1}` and each item's `:{"v":,"o":,"k":}`.
+const kRefineBytes = 26, kListBytes = 25, kItemBytes = 17
+
+function makeListItem<V>(value: V, order: number, k = randomKey()): ListItem<V> {
+  return { v: value, o: order, k }
+}
+
+function makeListValue<V>(values: readonly V[]): ListValue<V> {
+  const items: ListValue<V>['items'] = {}
+  values.forEach((value, i) => items[randomKey()] = makeListItem(value, i + 1))
+  return { items, [kList]: 1 }
+}
+
+const isPlainObject = (value: unknown): value is {} => isObject(value) && !Array.isArray(value)
+
+// Return `newValue` but reuse the parts of `oldValue` that are deeply equal, collect the changed leaves.
+function merge(oldValue: any, newValue: any, path: Path, changes: PathDiff[]): any {
+  if (oldValue === newValue) return oldValue
+  if (!isObject(oldValue) || !isObject(newValue) || Array.isArray(oldValue) !== Array.isArray(newValue)) {
+    changes.push({ path, oldValue, newValue })
+    return newValue
+  }
+  const array = Array.isArray(newValue), result: any = array ? [] : {}
+  let same = Object.keys(oldValue).length === Object.keys(newValue).length
+  for (const key of new Set([...Object.keys(oldValue), ...Object.keys(newValue)])) {
+    const subpath = [...path, array ? Number(key) : key]
+    if (!has(newValue, key)) {
+      changes.push({ path: subpath, oldValue: oldValue[key] })
+      same = false
+    } else {
+      result[key] = merge(oldValue[key], newValue[key], subpath, changes)
+      if (!has(oldValue, key) || result[key] !== oldValue[key]) same = false
+    }
+  }
+  return same ? oldValue : result
+}
+
+const getIn = (value: any, path: Path): any => {
+  for (const key of path) value = isObject(value) ? value[key] : void 0
+  return value
+}
+
+// Immutably set `value` at `path`, `undefined` removes the key.
+const setIn = (target: any, path: Path, value: unknown): any => {
+  if (path.length === 0) return value
+  const [key, ...rest] = path
+  const copy = Array.isArray(target) ? target.slice() : isObject(target) ? { ...target } : typeof key === 'number' ? [] : {}
+  const next = setIn(copy[key], rest, value)
+  if (next === void 0 && !Array.isArray(copy)) delete copy[key]
+  else copy[key] = next
+  return copy
+}
+
+// Listen to the props of `object` and its nested objects, arrays are always replaced so they are not listened.
+// `callback` receives the path of the changed prop and a plain copy of its new value.
+const listenDeep = (object: {}, callback: (path: string[], value: unknown) => void): () => void => {
+  const children = new Map<string, () => void>()
+  const listenChild = (key: string, value: unknown) => {
+    children.get(key)?.()
+    children.delete(key)
+    if (isPlainObject(value) && !isArray(value)) {
+      children.set(key, listenDeep(value, (path, value) => callback([key, ...path], value)))
+    }
+  }
+  for (const key of Object.keys(object)) listenChild(key, object[key])
+  const stop = listenProps(object, (actions) => {
+    for (const { key, value, kind } of actions) {
+      const next = kind === UpdateEventKind.Removed ? void 0 : value
+      listenChild(key, next)
+      callback([key], toJS(next))
+    }
+  })
+  return () => {
+    stop()
+    children.forEach(stop => stop())
+    children.clear()
+  }
+}
+
 export class Refine<S = {}> {
 
   public state = {} as S
 
   private refMap = new Map<any, RefineValue<any>>()
   private refKeys = new Set<string>()
+  private lists = new Map<string, { ids: string[], items: ListValue['items'] }>()
 
   constructor(state: RefineState<S>) {
     this.replaceState(state)
@@ -59,37 +169,88 @@ export class Refine<S = {}> {
   }
 
   setValue<K extends keyof S & string>(key: K, maybeRefValue: MaybeRefineValue<S[K]> | undefined): DiffOne<S[K]> | null {
-    if (isObject(maybeRefValue)) {
+    if (isListValue(maybeRefValue)) {
+      return this.setList(key, maybeRefValue)
+    } else if (isObject(maybeRefValue)) {
       let refValue = this.ensureRefValue(maybeRefValue)
       if (refValue.v !== this.state[key]) {
+        // Nested updates (see `Storage.setIn()`) keep the same ref key, only report what is changed.
+        let changes: PathDiff[] = [], value = merge(this.state[key], refValue.v, [key], changes)
+        if (value === this.state[key]) return null
         let oldValue = this.deleteRefKey(key)
-        this.state[key] = refValue.v
-        return { oldValue, newValue: refValue.v }
+        if (value !== refValue.v) this.refMap.set(value, { ...refValue, v: value })
+        this.state[key] = value
+        return { oldValue, newValue: value, changes }
       }
     } else if (maybeRefValue === void 0) {
       if (has(this.state, key)) {
         let oldValue = this.deleteRefKey(key)
         delete this.state[key]
-        return { oldValue, newValue: undefined as unknown as S[K] }
+        return { oldValue, newValue: undefined as unknown as S[K], changes: [{ path: [key], oldValue }] }
       }
     } else {
       let value = maybeRefValue as S[K]
       if (value !== this.state[key]) {
         let oldValue = this.deleteRefKey(key)
         this.state[key] = value
-        return { oldValue, newValue: value }
+        return { oldValue, newValue: value, changes: [{ path: [key], oldValue, newValue: value }] }
       }
     }
     return null
   }
 
+  setList<K extends keyof S & string>(key: K, list: ListValue): DiffOne<S[K]> | null {
+    const old = this.lists.get(key), oldIds = old?.ids || [], oldItems = old?.items || {}
+    const oldArray = (old ? this.state[key] : []) as unknown as any[]
+    const oldValue = old ? this.state[key] : this.deleteRefKey(key)
+    const oldIndexes = new Map(oldIds.map((id, i) => [id, i]))
+    const items = list.items || {}, changes: ItemDiff<any>[] = []
+    const ids = Object.keys(items).sort((a, b) => items[a].o - items[b].o || (a < b ? -1 : a > b ? 1 : 0))
+    const newValue = ids.map((id, newIndex) => {
+      const item = items[id], oldItem = oldItems[id], oldIndex = oldIndexes.get(id)
+      if (!oldItem || oldIndex === void 0) {
+        changes.push({ id, newIndex, newValue: item.v })
+        return item.v
+      }
+      // Keep the old value if it is not replaced, so that apps can compare items by reference.
+      const value = oldItem.k === item.k ? oldArray[oldIndex] : item.v
+      if (oldItem.k !== item.k || oldItem.o !== item.o) {
+        changes.push({ id, oldIndex, newIndex, oldValue: oldArray[oldIndex], newValue: value })
+      }
+      return value
+    })
+    oldIds.forEach((id, oldIndex) => {
+      if (!has(items, id)) changes.push({ id, oldIndex, oldValue: oldArray[oldIndex] })
+    })
+    this.lists.set(key, { ids, items })
+    if (old && changes.length === 0) return null
+    this.state[key] = newValue as S[K]
+    return { oldValue, newValue: newValue as S[K], items: changes as any }
+  }
+
+  /// Key of the `RefineValue` that stores the object `value` of the state.
+  refKey(value: unknown): string | undefined {
+    return this.refMap.get(value)?.k
+  }
+
+  /// Item ids and stored items of the list `key`, or `undefined` if it is not a list.
+  getList(key: string): { readonly ids: readonly string[], readonly items: ListValue['items'] } | undefined {
+    return this.lists.get(key)
+  }
+
   toRefState(): RefineState<S> {
     return plainObjectKeys(this.state).reduce((refState, key) => {
-      refState[key] = this.toRefValue(this.state[key])
+      const list = this.lists.get(key)
+      refState[key] = list ? { items: list.items, [kList]: 1 } as any : this.toRefValue(this.state[key])
       return refState
     }, {} as RefineState<S>)
   }
 
+  /// Keep lists being lists when they are replaced by arrays, each item gets a new id.
+  toListValue<K extends keyof S & string>(key: K, value: S[K]): MaybeRefineValue<S[K]> | ListValue {
+    return this.lists.has(key) && Array.isArray(value) ? makeListValue(value) : value
+  }
+
   toRefValue<K extends keyof S & string>(maybeRefValue: MaybeRefineValue<S[K]>) {
     return isObject(maybeRefValue) ? this.ensureRefValue(maybeRefValue) : maybeRefValue
   }
@@ -119,6 +280,7 @@ export class Refine<S = {}> {
   deleteRefKey<K extends keyof S & string>(key: K): S[K] {
     let value = this.state[key], refValue = this.refMap.get(value)
     if (refValue) this.refKeys.delete(refValue.k)
+    this.lists.delete(key)
     return value
   }
 
@@ -130,39 +292,78 @@ export const kMainStorage = '_WM-MaIn-StOrAgE_'
 export interface StorageEvents<S = {}> {
   stateChanged: Diff<S>
   disconnected: void
+  /// Optimistic writes are rolled back, the diff is from the local state to the synced one.
+  rejected: Diff<S>
+  /// A write is dropped because the state would be too large, see `WindowManagerOptions.storageQuota`.
+  quotaExceeded: QuotaExceeded
 }
 
-export class Storage<S = {}> {
+export interface QuotaExceeded {
+  namespace: string
+  /// Max bytes of all storages of the app.
+  limit: number
+  /// Bytes of all storages of the app if the write was accepted.
+  size: number
+}
+
+/// @internal Storages of the same app share one quota.
+export interface StorageQuota {
+  limit: number
+  /// Bytes used by other storages of the app.
+  others(): number
+}
+
+export interface StorageOptions {
+  /// Apply writes to the local `state` immediately when the storage is not writable (e.g. the plugin is not created,
+  /// reconnecting, or a reader who may be granted later). They are written when it becomes writable,
+  /// or rolled back with a `rejected` event after `timeout`. Default is `false`, writes are ignored.
+  optimistic?: boolean
+  /// Milliseconds to wait for the storage becoming writable, default is `10000`.
+  timeout?: number
+  /// @internal Set by the app context.
+  quota?: StorageQuota
+}
+
+export class Storage<S = {}, E = {}> {
   readonly _subscribers = {
     stateChanged: new Set<(diff: Diff<S>) => void>(),
     disconnected: new Set<() => void>(),
+    rejected: new Set<(diff: Diff<S>) => void>(),
+    quotaExceeded: new Set<(data: QuotaExceeded) => void>(),
   }
-  readonly _refine: Refine<S>
+  _refine: Refine<S>
   readonly dispose = disposableStore()
+  /// Operations to replay when writable, see `StorageOptions.optimistic`.
+  readonly _pending: Array<() => void> = []
+  _timer = 0
+  _flushing = false
+  readonly _sizes = new WeakMap<object, number>()
 
   constructor(
     readonly plugin$: ReadonlyVal<InvisiblePlugin<{}, {}> | null>,
     readonly namespace = kMainStorage,
     readonly defaultState = {} as S,
+    readonly options: StorageOptions = {},
   ) {
     if (defaultState && !isObject(defaultState)) {
       throw new Error(`[WindowManager]: Default state for storage ${namespace} is not an object`)
     }
 
-    const read = (): RefineState<S> | undefined => this.plugin$.value?.attributes[kStorage]?.[this.namespace]
-    const notify = (diff: Diff<S> | null) => diff && this.emit('stateChanged', diff)
+    const read = () => this._read()
+    const notify = (diff: Diff<S> | null) => diff && !this._flushing && this.emit('stateChanged', diff)
 
     this._refine = new Refine(toJS(read()) || defaultState)
 
     const listenNamespaceProps = (raw: RefineState<S>): () => void => {
-      const handler: AkkoObjectUpdatedListener<any> = (actions) => {
-        if (actions.length === 0) return
+      // Plain copies of the stored values, nested changes (items of lists, values written by `setIn()`)
+      // are patched into them instead of copying the whole value again.
+      const snapshots = new Map<keyof S & string, MaybeRefineValue>()
+      const nested = new Map<keyof S & string, () => void>()
+
+      const update = (keys: Array<keyof S & string>) => {
         let diff = {} as Diff<S>, dirty = false
-        for (let i = 0; i < actions.length; i++)  {
-          const action = actions[i], key = action.key as keyof S & string
-          if (key === kStorage) continue;
-          const value = toJS(action.value)
-          let diffOne = this._refine.setValue(key, value)
+        for (const key of keys) {
+          const diffOne = this._refine.setValue(key, snapshots.get(key))
           if (diffOne) {
             dirty = true
             diff[key] = diffOne
@@ -170,8 +371,35 @@ export class Storage<S = {}> {
         }
         dirty && notify(diff)
       }
-      listenUpdated(raw, handler)
-      return () => unlistenUpdated(raw, handler)
+
+      const listenKey = (key: keyof S & string, value: unknown, snapshot: MaybeRefineValue) => {
+        nested.get(key)?.()
+        nested.delete(key)
+        snapshots.set(key, snapshot)
+        if (isPlainObject(value)) nested.set(key, listenDeep(value, (path, value) => {
+          snapshots.set(key, setIn(snapshots.get(key), path, value))
+          update([key])
+        }))
+      }
+
+      const handler: AkkoObjectUpdatedListener<RefineState<S>> = (actions) => {
+        const keys: Array<keyof S & string> = []
+        for (const { key, value, kind } of actions) {
+          if (key === kStorage) continue
+          const next = kind === UpdateEventKind.Removed ? void 0 : value
+          listenKey(key as keyof S & string, next, toJS(next))
+          keys.push(key as keyof S & string)
+        }
+        update(keys)
+      }
+
+      for (const key of plainObjectKeys(raw)) if (key !== kStorage) listenKey(key, raw[key], toJS(raw[key]))
+      const stop = listenProps(raw, handler)
+      return () => {
+        stop()
+        nested.forEach(stop => stop())
+        nested.clear()
+      }
     }
 
     const listenNamespace = (): () => void => {
@@ -186,15 +414,148 @@ export class Storage<S = {}> {
       return () => { stop(); stopListenProps() }
     }
 
-    this.dispose.add(this.plugin$.subscribe(listenNamespace))
+    let stopListenNamespace = (): void => void 0
+    this.dispose.add(this.plugin$.subscribe(() => {
+      stopListenNamespace()
+      stopListenNamespace = listenNamespace()
+    }))
+    this.dispose.add(() => stopListenNamespace())
+
+    // Also when not `optimistic` yet, the main storage of an app gets `NetlessApp.storage` after the app is loaded.
+    let stopListenRoom = (): void => void 0
+    this.dispose.add(this.plugin$.subscribe((plugin) => {
+      stopListenRoom()
+      stopListenRoom = () => void 0
+      const room = plugin?.displayer
+      if (room && isRoom(room)) {
+        const stops = [listenRoom(room, 'onEnableWriteNowChanged', this._flush), listenRoom(room, 'onPhaseChanged', this._flush)]
+        stopListenRoom = () => stops.forEach(stop => stop())
+      }
+      this._flush()
+    }))
+    this.dispose.add(() => stopListenRoom())
 
     this.dispose.add(() => {
+      clearTimeout(this._timer)
+      this._pending.length = 0
       this.emit('disconnected')
       this._subscribers.stateChanged.clear()
       this._subscribers.disconnected.clear()
+      this._subscribers.rejected.clear()
+      this._subscribers.quotaExceeded.clear()
     })
   }
 
+  _read(): RefineState<S> | undefined {
+    return this.plugin$.value?.attributes[kStorage]?.[this.namespace]
+  }
+
+  /// Apply `values` to the local state and `replay` the operation when writable.
+  _queue(values: { [key: string]: unknown }, replay: () => void) {
+    let diff = {} as Diff<S>, dirty = false
+    for (const key of Object.keys(values) as Array<keyof S & string>) {
+      const diffOne = this._refine.setValue(key, values[key] as S[typeof key])
+      if (diffOne) {
+        dirty = true
+        diff[key] = diffOne
+      }
+    }
+    this._pending.push(replay)
+    this._timer ||= setTimeout(this._reject, this.options.timeout ?? 10_000) as unknown as number
+    dirty && this.emit('stateChanged', diff)
+  }
+
+  _flush = () => {
+    if (this._pending.length === 0 || !this.canOperate) return
+    clearTimeout(this._timer)
+    this._timer = 0
+    // Replay each operation on the synced state, then report the difference to the optimistic state.
+    const refine = this._refine
+    this._flushing = true
+    try {
+      for (const replay of this._pending.splice(0)) {
+        this._refine = new Refine(toJS(this._read()) || this.defaultState)
+        replay()
+      }
+    } finally {
+      this._refine = refine
+      this._flushing = false
+    }
+    const diff = refine.replaceState(toJS(this._read()) || this.defaultState)
+    diff && this.emit('stateChanged', diff)
+  }
+
+  _reject = () => {
+    this._timer = 0
+    this._pending.length = 0
+    const diff = this._refine.replaceState(toJS(this._read()) || this.defaultState) || {}
+    this.emit('rejected', diff)
+    if (Object.keys(diff).length) this.emit('stateChanged', diff)
+  }
+
+  /// Bytes of the state as stored in the room (serialized to JSON), the same as `inspectStorage()` reports.
+  /// See `WindowManagerOptions.storageQuota`.
+  get size(): number {
+    const state = this.state, keys = plainObjectKeys(state)
+    // Each entry counts a trailing comma, the last one is the closing brace.
+    let size = keys.length ? 1 : 2
+    for (const key of keys) size += this._entrySize(key, state[key])
+    return size
+  }
+
+  // Values in the state are replaced instead of mutated, so their sizes can be cached.
+  _sizeOf(value: unknown): number {
+    if (typeof value !== 'object' || value === null) return byteSize(value)
+    let size = this._sizes.get(value)
+    if (size === void 0) {
+      // Items of lists are cached too, so that pushing an item does not serialize the whole list.
+      size = Array.isArray(value) ? value.reduce((size: number, item) => size + this._sizeOf(item) + 1, 1) : byteSize(value)
+      this._sizes.set(value, size)
+    }
+    return size
+  }
+
+  // Bytes of `"key":value,` in the stored state.
+  _entrySize(key: string, value: unknown): number {
+    return value === void 0 ? 0 : byteSize(key) + this._storedSize(key, value) + 2
+  }
+
+  // Objects are stored in `RefineValue` and lists in `ListValue`, new keys and item ids are estimated with random ones.
+  _storedSize(key: string, value: unknown): number {
+    if (!isObject(value)) return byteSize(value)
+    const list = this._refine.getList(key)
+    if (!list || !Array.isArray(value)) return kRefineBytes + byteSize(this._refine.refKey(value) ?? randomKey()) + this._sizeOf(value)
+    let size = kListBytes + Math.max(0, value.length - 1)
+    for (let i = 0; i < value.length; i++) {
+      const id = list.ids[i], item = id ? list.items[id] : makeListItem(null, i + 1)
+      size += kItemBytes + byteSize(id ?? randomKey()) + byteSize(item.o) + byteSize(item.k) + this._sizeOf(value[i])
+    }
+    return size
+  }
+
+  // Writes that make the state larger are dropped when it exceeds the quota, shrinking is always allowed.
+  _withinQuota(partial: { [key: string]: unknown }): boolean {
+    const quota = this.options.quota
+    if (!quota) return true
+    const state = this.state, before = this.size
+    let after = before
+    for (const key of plainObjectKeys(partial)) after += this._entrySize(key, partial[key]) - this._entrySize(key, state[key])
+    if (after <= before) return true
+    const size = after + quota.others()
+    if (size <= quota.limit) return true
+    this.emit('quotaExceeded', { namespace: this.namespace, limit: quota.limit, size })
+    return false
+  }
+
+  // The list `key` with the item `id` replaced or removed, for optimistic updates.
+  _listWith(key: keyof S & string, id: string, item?: ListItem): ListValue {
+    const list = this._refine.getList(key), current = this.state[key]
+    const items = list ? { ...list.items } : makeListValue(Array.isArray(current) ? current : []).items
+    if (item) items[id] = item
+    else delete items[id]
+    return { items, [kList]: 1 }
+  }
+
   on<K extends keyof StorageEvents<S>>(event: K, callback: (data: StorageEvents<S>[K]) => void): () => void
   on<K extends keyof StorageEvents<S>>(event: K, callback: () => void): () => void
   on<K extends keyof StorageEvents<S>>(event: K, callback: (data?: any) => void): () => void {
@@ -222,10 +583,146 @@ export class Storage<S = {}> {
 
   setState(partial: Partial<S>) {
     const plugin = this.plugin$.value!
+    if (!this._withinQuota(partial)) return
     if (this.canOperate) for (let key of plainObjectKeys(partial)) {
-      const value = partial[key]
-      plugin.updateAttributes([kStorage, this.namespace, key], isObject(value) ? this._refine.ensureRefValue(value) : value)
+      const value = this._refine.toListValue(key, partial[key]!)
+      plugin.updateAttributes([kStorage, this.namespace, key], isObject(value) && !isListValue(value) ? this._refine.ensureRefValue(value) : value)
+    } else if (this.options.optimistic) {
+      const values: { [key: string]: unknown } = {}
+      for (let key of plainObjectKeys(partial)) values[key] = this._refine.toListValue(key, partial[key]!)
+      this._queue(values, () => this.setState(partial))
+    }
+  }
+
+  /// Set a nested value, e.g. `setIn(['slides', 'a', 'title'], 'Hi')`. Only the changed field is written
+  /// when the parent objects exist, otherwise (or if there are arrays in the path) the top-level key is replaced.
+  /// For lists, the second element of `path` is the index of the item.
+  setIn(path: Path, value: unknown) {
+    if (path.length === 0) return
+    const key = String(path[0]) as keyof S & string, rest = path.slice(1), current: any = this.state[key]
+    if (rest.length === 0) return this.setState({ [key]: value } as Partial<S>)
+    const list = this._refine.getList(key)
+    if (list) {
+      const id = list.ids[rest[0] as number]
+      if (id) this.updateItem(key as ListKey<S>, id, setIn(current[rest[0]], rest.slice(1), value))
+      return
+    }
+    const next = setIn(current, rest, value)
+    if (!this._withinQuota({ [key]: next })) return
+    if (!this.canOperate) {
+      if (this.options.optimistic) this._queue({ [key]: next }, () => this.setIn(path, value))
+      return
+    }
+    const raw = this.plugin$.value!.attributes[kStorage]?.[this.namespace]?.[key]
+    let parent = current, writable = isRefineValue(raw) && isPlainObject(current)
+    for (let i = 0; writable && i < rest.length - 1; i++) writable = isPlainObject(parent = parent[rest[i]])
+    if (writable) {
+      this.plugin$.value!.updateAttributes([kStorage, this.namespace, key, 'v', ...rest.map(String)], value)
+    } else {
+      this.setState({ [key]: next } as Partial<S>)
+    }
+  }
+
+  /// Call `callback` when the value at `path` is changed, including changes made by the current user.
+  watch<V = any>(path: Path, callback: (newValue: V, oldValue: V) => void): () => void {
+    let value = getIn(this.state, path)
+    return this.on('stateChanged', diff => {
+      if (!has(diff, String(path[0]))) return
+      const oldValue = value
+      value = getIn(this.state, path)
+      if (value !== oldValue) callback(value, oldValue)
+    })
+  }
+
+  /// Item ids of the list `key`, in the same order as `state[key]`. It is empty if `key` is not a list.
+  itemIds(key: ListKey<S>): readonly string[] {
+    return this._refine.getList(key)?.ids || []
+  }
+
+  /// Append `value` to the list `key`, returns the item id. The list is created if `key` is not a list.
+  /// Unlike `setState()`, list operations on different items by different users do not override each other.
+  pushItem<K extends ListKey<S>>(key: K, value: ItemOf<S[K]>, id = randomKey()): string | undefined {
+    return this._pushItem(key, value, id, randomKey())
+  }
+
+  // Optimistic operations are replayed with the same `k`, so that the item is not reported as replaced.
+  _pushItem<K extends ListKey<S>>(key: K, value: ItemOf<S[K]>, id: string, k: string): string | undefined {
+    const list = this._refine.getList(key), values: any = this.state[key]
+    if (!this._withinQuota({ [key]: [...(Array.isArray(values) ? values : []), value] })) return
+    if (this.canOperate) {
+      const plugin = this.plugin$.value!
+      if (list) {
+        const last = list.ids[list.ids.length - 1]
+        plugin.updateAttributes([kStorage, this.namespace, key, 'items', id], makeListItem(value, last ? list.items[last].o + 1 : 1, k))
+      } else {
+        const current = this.state[key], values: any[] = Array.isArray(current) ? current : []
+        const listValue = makeListValue(values)
+        listValue.items[id] = makeListItem(value, values.length + 1, k)
+        plugin.updateAttributes([kStorage, this.namespace, key], listValue)
+      }
+    } else if (this.options.optimistic) {
+      const last = list?.ids[list.ids.length - 1], current = this.state[key]
+      const order = list ? (last ? list.items[last].o + 1 : 1) : (Array.isArray(current) ? current.length : 0) + 1
+      this._queue({ [key]: this._listWith(key, id, makeListItem(value, order, k)) }, () => this._pushItem(key, value, id, k))
+    } else {
+      return
+    }
+    return id
+  }
+
+  /// Replace the value of an item in the list `key`.
+  updateItem<K extends ListKey<S>>(key: K, id: string, value: ItemOf<S[K]>) {
+    this._updateItem(key, id, value, randomKey())
+  }
+
+  _updateItem<K extends ListKey<S>>(key: K, id: string, value: ItemOf<S[K]>, k: string) {
+    const list = this._refine.getList(key), item = list?.items[id]
+    if (!list || !item) return
+    const values = (this.state[key] as any[]).slice()
+    values[list.ids.indexOf(id)] = value
+    if (!this._withinQuota({ [key]: values })) return
+    if (this.canOperate) {
+      this.plugin$.value!.updateAttributes([kStorage, this.namespace, key, 'items', id], makeListItem(value, item.o, k))
+    } else if (this.options.optimistic) {
+      this._queue({ [key]: this._listWith(key, id, makeListItem(value, item.o, k)) }, () => this._updateItem(key, id, value, k))
+    }
+  }
+
+  removeItem(key: ListKey<S>, id: string) {
+    if (!this._refine.getList(key)?.items[id]) return
+    if (this.canOperate) {
+      this.plugin$.value!.updateAttributes([kStorage, this.namespace, key, 'items', id], undefined)
+    } else if (this.options.optimistic) {
+      this._queue({ [key]: this._listWith(key, id) }, () => this.removeItem(key, id))
+    }
+  }
+
+  /// Move an item to `index` of the list `key`, only its order is written.
+  moveItem(key: ListKey<S>, id: string, index: number) {
+    const list = this._refine.getList(key), item = list?.items[id]
+    if (!list || !item) return
+    const ids = list.ids.filter(e => e !== id), order = (e: string) => list.items[e].o
+    index = Math.max(0, Math.min(ids.length, index))
+    const prev = ids[index - 1], next = ids[index]
+    const o = prev && next ? (order(prev) + order(next)) / 2 : prev ? order(prev) + 1 : next ? order(next) - 1 : 1
+    if (this.canOperate) {
+      this.plugin$.value!.updateAttributes([kStorage, this.namespace, key, 'items', id, 'o'], o)
+    } else if (this.options.optimistic) {
+      this._queue({ [key]: this._listWith(key, id, { ...item, o }) }, () => this.moveItem(key, id, index))
+    }
+  }
+
+  /// Replace the whole state, keys not in `state` are removed.
+  /// The local state is updated immediately, the remote one is only updated when writable.
+  replaceState(state: S) {
+    assertObject(state, 'replaceState')
+    state = plainObjectKeys(state).reduce((lists, key) => (lists[key] = this._refine.toListValue(key, state[key]), lists), {} as any)
+    const diff = this._refine.replaceState(state)
+    if (this.canOperate) {
+      const plugin = this.plugin$.value!
+      plugin.updateAttributes([kStorage, this.namespace], this._refine.toRefState())
     }
+    diff && this.emit('stateChanged', diff)
   }
 
   resetState() {
@@ -234,4 +731,32 @@ export class Storage<S = {}> {
       plugin.updateAttributes([kStorage, this.namespace], this.defaultState)
     }
   }
+
+  /// Send a broadcast message to the storages with the same namespace in all clients.
+  /// No effect when the room is not writable.
+  dispatchEvent<K extends keyof E & string>(event: K, payload: E[K]) {
+    const displayer = this.plugin$.value?.displayer
+    if (displayer && isRoomWritable(displayer)) {
+      displayer.dispatchMagixEvent(this.eventName(event), payload)
+    }
+  }
+
+  /// Listen to broadcast messages of this storage, you will also receive messages sent by yourself.
+  /// The listener is removed when the storage is disposed.
+  addEventListener<K extends keyof E & string>(event: K, callback: (message: MagixEventMessage<E, K>) => void): () => void {
+    const displayer = this.plugin$.value?.displayer
+    if (!displayer) return () => void 0
+    const name = this.eventName(event)
+    const listener = (e: any) => callback({ ...e, event })
+    displayer.addMagixEventListener(name, listener)
+    const dispose = () => {
+      this.dispose.remove(dispose)
+      displayer.removeMagixEventListener(name, listener)
+    }
+    return this.dispose.add(dispose)
+  }
+
+  eventName(event: string): string {
+    return kStorage + this.namespace + ':' + event
+  }
 }
@@ -0,0 +1,296 @@
+import { isObservable, observable, reaction, remove, runInAction, set } from "mobx"
+import { RoomPhase, ScenePathType, UpdateEventKind, type AkkoObjectUpdatedListener, type Camera, type Displayer, type Event, type InvisiblePlugin, type InvisiblePluginClass, type MagixEventListenerOptions, type Room, type SceneDefinition, type View } from "white-web-sdk"
+import { useAdapter } from "../invisible-plugin"
+
+export interface MockRoomOptions {
+  /// Default is a random string.
+  uid?: string
+  /// Default is `true`.
+  isWritable?: boolean
+}
+
+export interface MockRoom extends Room {
+  /// Connect another client to the same room, they share `attributes`, scenes and magix events.
+  join(options?: MockRoomOptions): MockRoom
+  /// Simulate network status changes, e.g. `setPhase(RoomPhase.Reconnecting)`.
+  setPhase(phase: RoomPhase): void
+}
+
+type Listener = (...args: any[]) => void
+
+interface Backend {
+  clients: Set<MockClient>
+  observerId: number
+  plugins: Map<string, {}>
+  scenes: { [dir: string]: SceneDefinition[] }
+  index: number
+  contextPath: string
+}
+
+interface MockClient {
+  room: MockRoom
+  emit(event: string, ...args: any[]): void
+  magix: Map<string, Map<Listener, MagixEventListenerOptions | undefined>>
+}
+
+const rooms = new WeakSet<Displayer>()
+
+const has = (object: {}, key: string) => Object.prototype.hasOwnProperty.call(object, key)
+
+// Attributes of mock rooms are plain MobX objects, compare each prop to simulate `listenUpdated()`.
+const listenUpdated = (object: {}, listener: AkkoObjectUpdatedListener<any>) => {
+  if (!isObservable(object)) return
+  let prev = { ...object }
+  return reaction(() => ({ ...object }), (next) => {
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)])
+    const actions = [...keys].filter(key => prev[key] !== next[key]).map(key => ({
+      key, value: next[key],
+      kind: !has(prev, key) ? UpdateEventKind.Inserted : !has(next, key) ? UpdateEventKind.Removed : UpdateEventKind.Updated,
+    }))
+    prev = next
+    listener(actions)
+  })
+}
+
+useAdapter({ isRoom: room => rooms.has(room), listenUpdated })
+
+const createEmitter = () => {
+  const listeners = new Map<string, Set<Listener>>()
+  const on = (event: string, fn: Listener) => {
+    let set = listeners.get(event)
+    if (!set) listeners.set(event, set = new Set())
+    set.add(fn)
+  }
+  const off = (event: string, fn: Listener) => {
+    listeners.get(event)?.delete(fn)
+  }
+  const emit = (event: string, ...args: any[]) => {
+    listeners.get(event)?.forEach(fn => {
+      try { fn(...args) } catch (error) { console.error(error) }
+    })
+  }
+  return { on, off, emit }
+}
+
+const createView = (room: MockRoom, views: Set<View>): View => {
+  const callbacks = createEmitter()
+  const view = {
+    camera: { centerX: 0, centerY: 0, scale: 1 },
+    size: { width: 1280, height: 720 },
+    callbacks,
+    divElement: null,
+    focusScenePath: undefined,
+    moveCamera(camera: Partial<Camera>) {
+      view.camera = { ...view.camera, ...camera }
+      callbacks.emit('onCameraUpdated', view.camera)
+    },
+    moveCameraToContain() {},
+    release() {
+      views.delete(view as unknown as View)
+    },
+  }
+  views.add(view as unknown as View)
+  return view as unknown as View
+}
+
+const createPlugin = (room: MockRoom, backend: Backend, kind: string): InvisiblePlugin<{}, {}> => {
+  let attributes = backend.plugins.get(kind)
+  if (!attributes) backend.plugins.set(kind, attributes = observable({}))
+
+  const assertWritable = () => {
+    if (!room.isWritable || room.phase !== RoomPhase.Connected)
+      throw new Error('[MockRoom]: room is not writable')
+  }
+
+  const updateAttributes = (keys: string | string[], value: any) => {
+    assertWritable()
+    const path = typeof keys === 'string' ? [keys] : keys
+    if (path.length === 0) {
+      runInAction(() => {
+        for (const key of Object.keys(attributes!)) remove(attributes!, key)
+        if (value) for (const key of Object.keys(value)) set(attributes!, key, value[key])
+      })
+      return
+    }
+    runInAction(() => {
+      let parent: any = attributes
+      for (let i = 0; i < path.length - 1; i++) {
+        // Like the real SDK, missing objects in the path are created.
+        if (typeof parent[path[i]] !== 'object' || parent[path[i]] === null) set(parent, path[i], {})
+        parent = parent[path[i]]
+      }
+      const key = path[path.length - 1]
+      value === void 0 ? remove(parent, key) : set(parent, key, value)
+    })
+  }
+
+  return {
+    displayer: room,
+    get attributes() { return attributes },
+    setAttributes(partial: {}) {
+      for (const key of Object.keys(partial)) updateAttributes([key], partial[key])
+    },
+    updateAttributes,
+  } as unknown as InvisiblePlugin<{}, {}>
+}
+
+const connect = (backend: Backend, options: MockRoomOptions = {}): MockRoom => {
+  const { uid = Math.random().toString(36).slice(2), isWritable = true } = options
+  const callbacks = createEmitter()
+  const views = new Set<View>()
+  const plugins = new Map<string, InvisiblePlugin<{}, {}>>()
+  const magix: MockClient['magix'] = new Map()
+
+  const sceneState = () => {
+    const { contextPath, index } = backend, scenes = backend.scenes[contextPath] || []
+    const scenePath = (contextPath === '/' ? '' : contextPath) + '/' + (scenes[index]?.name || '')
+    return { contextPath, index, scenes, scenePath, sceneName: scenes[index]?.name || '' }
+  }
+
+  const getPlugin = (kind: string) => {
+    let plugin = plugins.get(kind)
+    if (!plugin) plugins.set(kind, plugin = createPlugin(room, backend, kind))
+    return plugin
+  }
+
+  const roomMembers = () => [...backend.clients].map(client => ({ memberId: client.room.observerId, session: client.room.uid }))
+
+  const updateMembers = () => {
+    backend.clients.forEach(client => client.emit('onRoomStateChanged', { roomMembers: roomMembers() }))
+  }
+
+  const updateScenes = () => {
+    backend.clients.forEach(client => client.emit('onRoomStateChanged', { sceneState: sceneState() }))
+  }
+
+  const room = {
+    uid,
+    observerId: backend.observerId++,
+    version: '2.16.51',
+    useMobXState: true,
+    useMultiViews: true,
+    isWritable,
+    phase: RoomPhase.Connected,
+    roomToken: '',
+    callbacks,
+    views: {
+      createView: () => createView(room, views),
+      forEach: (fn: (view: View) => void) => views.forEach(fn),
+    },
+    get calibrationTimestamp() { return Date.now() },
+    get state() { return { sceneState: sceneState(), roomMembers: roomMembers() } },
+
+    getInvisiblePlugin: getPlugin,
+    async createInvisiblePlugin(cls: InvisiblePluginClass<string, {}, {}>) {
+      const plugin = getPlugin(cls.kind)
+      cls.onCreate?.(plugin)
+      return plugin
+    },
+
+    async setWritable(writable: boolean) {
+      if (room.isWritable !== writable) {
+        (room as { isWritable: boolean }).isWritable = writable
+        callbacks.emit('onEnableWriteNowChanged', writable)
+      }
+    },
+    setPhase(phase: RoomPhase) {
+      if (room.phase !== phase) {
+        (room as { phase: RoomPhase }).phase = phase
+        callbacks.emit('onPhaseChanged', phase)
+      }
+    },
+    async disconnect() {
+      room.setPhase(RoomPhase.Disconnected)
+      backend.clients.delete(client)
+      updateMembers()
+    },
+    join: (options?: MockRoomOptions) => connect(backend, options),
+    syncMainView() {},
+
+    dispatchMagixEvent(event: string, payload: any) {
+      if (!room.isWritable || room.phase !== RoomPhase.Connected)
+        throw new Error('[MockRoom]: room is not writable')
+      const message = { event, payload, authorId: room.observerId, scope: 'magix', phase: 'dispatched' } as Event
+      backend.clients.forEach(target => target.magix.get(event)?.forEach((options, listener) => {
+        // Just like the real SDK, local events are received immediately by default.
+        if (target === client && !options?.fireSelfEventAfterCommit) listener(message)
+        else queueMicrotask(() => listener(message))
+      }))
+    },
+    addMagixEventListener(event: string, listener: Listener, options?: MagixEventListenerOptions) {
+      let map = magix.get(event)
+      if (!map) magix.set(event, map = new Map())
+      map.set(listener, options)
+    },
+    removeMagixEventListener(event: string, listener?: Listener) {
+      if (listener) magix.get(event)?.delete(listener)
+      else magix.delete(event)
+    },
+
+    scenePathType(path: string) {
+      if (backend.scenes[path]) return ScenePathType.Dir
+      const index = path.lastIndexOf('/'), dir = path.slice(0, index) || '/'
+      return backend.scenes[dir]?.some(scene => scene.name === path.slice(index + 1)) ? ScenePathType.Page : ScenePathType.None
+    },
+    putScenes(dir: string, scenes: SceneDefinition[], index?: number) {
+      const list = (backend.scenes[dir] ||= [])
+      for (const scene of scenes) {
+        const name = scene.name || Math.random().toString(36).slice(2)
+        const exist = list.findIndex(e => e.name === name)
+        if (exist >= 0) list[exist] = { ...scene, name }
+        else list.splice(index == null ? list.length : index++, 0, { ...scene, name })
+      }
+      updateScenes()
+    },
+    removeScenes(path: string) {
+      const index = path.lastIndexOf('/'), dir = path.slice(0, index) || '/'
+      const list = backend.scenes[dir] || []
+      const i = list.findIndex(scene => scene.name === path.slice(index + 1))
+      if (i >= 0) list.splice(i, 1)
+      if (dir === backend.contextPath) backend.index = Math.max(0, Math.min(backend.index, list.length - 1))
+      updateScenes()
+    },
+    setSceneIndex(index: number) {
+      backend.index = index
+      updateScenes()
+    },
+    setScenePath(path: string) {
+      const index = path.lastIndexOf('/'), dir = path.slice(0, index) || '/'
+      const i = backend.scenes[dir]?.findIndex(scene => scene.name === path.slice(index + 1)) ?? -1
+      if (i >= 0) {
+        backend.contextPath = dir
+        backend.index = i
+        updateScenes()
+      }
+    },
+    entireScenes() {
+      return backend.scenes
+    },
+  } as unknown as MockRoom
+
+  rooms.add(room)
+  const client: MockClient = { room, emit: callbacks.emit, magix }
+  backend.clients.add(client)
+  updateMembers()
+  return room
+}
+
+/// An in-memory fake of `joinRoom()` for tests without a server, it supports
+/// `attributes` (as MobX observables), magix events, scenes, room members and writable states.
+///
+/// ```js
+/// const a = createMockRoom(), b = a.join({ isWritable: false })
+/// const p = useInvisiblePlugin('WindowManager')
+/// const managerA = createWindowManager(p.initialize(a))
+/// const managerB = createWindowManager(p.initialize(b))
+/// ```
+export const createMockRoom = (options?: MockRoomOptions): MockRoom => {
+  return connect({
+    clients: new Set(),
+    observerId: 1,
+    plugins: new Map(),
+    scenes: { '/': [{ name: 'init' }] },
+    index: 0,
+    contextPath: '/',
+  }, options)
+}
@@ -0,0 +1,28 @@
+// Browser APIs that jsdom does not have, import this file before `white-web-sdk`,
+// e.g. `setupFiles: ['@netless/window-manager/testing/setup']` in the vitest config.
+
+if (typeof CanvasRenderingContext2D === 'undefined') {
+  // The SDK patches its prototype when it is imported, nothing is drawn in tests.
+  globalThis.CanvasRenderingContext2D = class CanvasRenderingContext2D {} as any
+}
+
+if (typeof Path2D === 'undefined') {
+  globalThis.Path2D = class Path2D {} as any
+}
+
+if (typeof ResizeObserver === 'undefined') {
+  globalThis.ResizeObserver = class ResizeObserver {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  }
+}
+
+if (typeof window !== 'undefined' && !window.matchMedia) {
+  window.matchMedia = (media: string) => ({
+    media, matches: false, onchange: null,
+    addEventListener() {}, removeEventListener() {}, addListener() {}, removeListener() {}, dispatchEvent: () => false,
+  })
+}
+
+export {}
@@ -1,15 +1,17 @@
 import type { InvisiblePlugin } from 'white-web-sdk'
 
+/// Call `fn` with the latest arguments at most once per `timeout` milliseconds.
 export const debounced = <T extends (...args: any[]) => void>(fn: T, timeout: number): T => {
-  let timer = 0, lastTime = 0
+  let timer = 0, lastTime = 0, lastArgs: any[] = []
 
   function refresh() {
     timer = 0
     lastTime = Date.now()
-    try { fn() } catch (err) { console.error(err) }
+    try { fn(...lastArgs) } catch (err) { console.error(err) }
   }
 
-  function update() {
+  function update(...args: any[]) {
+    lastArgs = args
     if (timer > 0) return
     timer = setTimeout(refresh, Math.max(0, lastTime + timeout - Date.now()));
   }
@@ -22,6 +24,10 @@ export const debounced = <T extends (...args: any[]) => void>(fn: T, timeout: nu
   return update as unknown as T
 }
 
+/// Size of `value` in bytes when serialized to JSON (UTF-8).
+export const byteSize = (value: unknown): number =>
+  value === void 0 ? 0 : new TextEncoder().encode(JSON.stringify(value)).length
+
 export const compareVersion = (a: string, b: string): number => {
   const left = a.split('.').map(e => Number.parseInt(e))
   const right = b.split('.').map(e => Number.parseInt(e))
@@ -45,13 +51,14 @@ export const createLogger = (room: unknown): Logger => {
 }
 
 // TODO: Remove this function for the one from `white-web-sdk`.
-const isArray = (a: any): a is any[] => {
+export const isArray = (a: any): a is any[] => {
   return a.__proxy && Array.isArray(a.__proxy.displayerTarget())
 }
 
 // Arrays must be replaced, since the SDK does not support partially update an array.
 export const mergeAttributes = (w: InvisiblePlugin<{}, {}>, a: {}, b: {}, p: string[] = []) => {
-  if (typeof a !== typeof b || (typeof a !== 'object' && a !== b) || Array.isArray(b) || isArray(a)) {
+  if (a === b) return
+  if (typeof a !== typeof b || typeof a !== 'object' || a === null || b === null || Array.isArray(b) || isArray(a)) {
     w.updateAttributes(p, b)
   } else for (let k of Object.keys(b)) {
     mergeAttributes(w, a[k], b[k], [...p, k])
@@ -2,12 +2,16 @@ import Emittery from 'emittery'
 import { h } from '@wopjs/dom'
 import { disposableMap, disposableStore } from "@wopjs/disposable"
 import { combine, from, val, type ReadonlyVal } from "value-enhancer"
-import { TeleBoxManager, type TeleBoxColorScheme, type TeleBoxState } from '@netless/telebox-insider'
-import { AnimationMode, reaction, type Camera, type CameraState, type Displayer, type Event, type InvisiblePlugin, type MagixEventListenerOptions, type Player, type Rectangle, type Room, type SceneDefinition, type Size, type View } from "white-web-sdk"
+import { TeleBoxManager, type ReadonlyTeleBox, type TeleBoxColorScheme, type TeleBoxState } from '@netless/telebox-insider'
+import { AnimationMode, PlayerPhase, RoomPhase, reaction, toJS, type Camera, type CameraState, type Displayer, type Event, type InvisiblePlugin, type MagixEventListenerOptions, type Player, type Rectangle, type Room, type SceneDefinition, type Size, type View } from "white-web-sdk"
 import { isPlayer, isRoom, isRoomWritable, listenPlayer, listenRoom, listenView } from "./invisible-plugin"
-import { compareVersion, createLogger, debounced, mergeAttributes, nextAppId, supportsAspectRatio, type Logger } from './utils'
-import { kStorage } from './synced-store'
-import { App, type AppMeta } from './app'
+import { byteSize, compareVersion, createLogger, debounced, mergeAttributes, nextAppId, supportsAspectRatio, type Logger } from './utils'
+import { kMainStorage, kStorage, Storage, type QuotaExceeded, type StorageOptions } from './synced-store'
+import { App, type AppBoxState, type AppInfo, type AppMeta, type AppSetupError, type Texts } from './app'
+import { register, registry, type RemoteNetlessApp } from './app-registry'
+import { History, type Operation } from './history'
+import { arrange, snap, type AppLayout } from './layout'
+import { defaultShortcuts, findShortcut, isEditable, type ShortcutAction, type Shortcuts } from './shortcuts'
 
 export interface WindowManagerOptions {
   /// The object returned by `joinRoom()` or `replayRoom()`.
@@ -15,6 +19,7 @@ export interface WindowManagerOptions {
   /// The object returned by `useInvisiblePlugin().initialize(room)`.
   plugin$: ReadonlyVal<InvisiblePlugin<{}, {}>>
   /// Local readonly flag, apps can read this flag and disable user operations.
+  /// Default is `true` when `room` is returned by `replayRoom()`.
   readonly?: boolean
   /// Width / height of the effective area, need to be the same in all clients. Default is `16 / 9`.
   aspectRatio?: number
@@ -27,6 +32,26 @@ export interface WindowManagerOptions {
   frame?: boolean
   /// Stop syncing the main whiteboard viewport. Default is `false`.
   freedom?: boolean
+  /// Each app has its own synced box state (normal, minimized, maximized) instead of sharing the global one.
+  /// Note that minimized apps can only be restored by `setAppBoxState()`. Default is `false`.
+  perAppBoxState?: boolean
+  /// Apps added with `src` by other clients are registered automatically from `attributes.registry`.
+  /// Return `false` to refuse untrusted scripts, e.g. check the origin of `app.src`. Default is to accept all.
+  checkRemoteApp?: (app: RemoteNetlessApp) => boolean
+  /// Re-run `setup()` of running apps when their definitions are registered again, with the same context and
+  /// storage. Apps should return a cleanup function from `setup()` to remove the old UI, listeners, storages and
+  /// views created through the context are disposed automatically. Default is `false`.
+  hotReload?: boolean
+  /// Snap windows to the container's edges and other windows after dragging. Default is `true`.
+  snap?: boolean
+  /// Max bytes (serialized to JSON as stored, see `inspectStorage()`) of all storages of an app by kind, `"*"` for
+  /// other kinds. Writes making the state larger than it are dropped with a `quotaExceeded` event. Default is no limit.
+  storageQuota?: { [kind: string]: number }
+  /// Keyboard shortcuts when the focus is inside `dom`, they are merged with `defaultShortcuts`.
+  /// Pass `false` to disable all shortcuts.
+  shortcuts?: Partial<Shortcuts> | false
+  /// Texts shown in app windows while loading or after failing to load, they are merged with `defaultTexts`.
+  texts?: Partial<Texts>
 }
 
 export interface PageState {
@@ -35,13 +60,77 @@ export interface PageState {
   length: number
 }
 
+/// What a user can do, see `setPermissions()`. Missing fields are `true`.
+export interface Permissions {
+  addApp: boolean
+  closeApp: boolean
+  /// Drag app windows.
+  moveApp: boolean
+  resizeApp: boolean
+  /// Add, remove and switch pages of the main whiteboard.
+  page: boolean
+  /// Move the main whiteboard's camera, both by devices and by `moveCamera()`.
+  camera: boolean
+  /// Change anyone's permissions by `setPermissions()`.
+  managePermissions: boolean
+}
+
+const defaultPermissions: Permissions = { addApp: true, closeApp: true, moveApp: true, resizeApp: true, page: true, camera: true, managePermissions: true }
+
+const samePermissions = (a: Permissions, b: Permissions) =>
+  (Object.keys(defaultPermissions) as (keyof Permissions)[]).every(key => a[key] === b[key])
+
+/// - `"connecting"`: the room is connecting or reconnecting.
+/// - `"ready"`: synced and writable.
+/// - `"readonly"`: synced but the room is not writable (e.g. a reader, or replaying).
+/// - `"plugin-missing"`: the plugin is not created or destroyed, `attributes` is empty. It is recreated
+///   automatically when a writable client joins.
+/// - `"disconnected"`: the room is disconnected, nothing will be synced anymore.
+export type SyncStatus = 'connecting' | 'ready' | 'readonly' | 'plugin-missing' | 'disconnected'
+
 export interface WindowManagerEventData {
   boxStateChange: TeleBoxState
   darkModeChange: boolean
   prefersColorSchemeChange: TeleBoxColorScheme
   cameraStateChange: CameraState
   pageStateChange: PageState
-  appSetupError: unknown
+  appSetupError: AppSetupError
+  appAdded: AppInfo
+  appClosed: AppInfo
+  appFocused: AppInfo
+  followingChange: boolean
+  /// Replay only, the new `player.progressTime` after seeking. While playing, seeks within 1s are not reported.
+  seek: number
+  permissionsChange: Permissions
+  historyChange: { canUndo: boolean; canRedo: boolean }
+  syncStatusChange: SyncStatus
+  quotaExceeded: QuotaExceeded & { appId: string; kind: string }
+}
+
+export interface StorageReport {
+  /// Bytes of all storages, serialized to JSON.
+  total: number
+  /// Bytes of each storage, app storages are named `"{appId}"` and `"{appId}:{namespace}"`.
+  namespaces: { [namespace: string]: number }
+  /// Bytes of all storages of each app.
+  apps: { [appId: string]: number }
+  /// Storages of apps that are no longer in `attributes.apps`, see `cleanupStorage()`.
+  orphans: string[]
+}
+
+export interface WindowManagerSnapshot {
+  /// The `version` of the window manager that exported this snapshot.
+  version: string
+  camera?: Camera
+  pageState: PageState
+  /// Pages in `pageState.context`.
+  scenes: SceneDefinition[]
+  minimized?: boolean
+  maximized?: boolean
+  apps: { [appId: string]: AppMeta }
+  /// Raw values of `attributes[kStorage]` that belong to the apps.
+  storage: { [namespace: string]: {} }
+  registry: { [kind: string]: Omit<RemoteNetlessApp, 'kind'> }
 }
 
 export interface AddAppOptions {
@@ -50,6 +139,12 @@ export interface AddAppOptions {
   src?: string
   /// See `src`, the global variable name to extract the app definition.
   name?: string
+  /// See `src`, how to evaluate the script.
+  format?: RemoteNetlessApp['format']
+  /// See `src`, subresource integrity of the script.
+  sri?: string
+  /// See `src`, run the script in a sandboxed iframe.
+  sandbox?: boolean
   /// Window title, default is `"{kind}-{randomId}"`.
   title?: string
   /// Initial app state.
@@ -109,6 +204,20 @@ export interface WindowManager {
   /// However, the `pageState` is still synced. Default is `false`.
   readonly freedom: boolean
 
+  /// The `observerId` of the user whose camera is followed by all clients, or `null` if anyone can move the camera.
+  /// It is also `null` after the broadcaster left the room, e.g. closed the page.
+  readonly broadcaster: number | null
+
+  /// If `true`, the main whiteboard's camera is following the broadcaster.
+  /// It becomes `false` when the user moves the camera (which turns on `freedom`), or there's no broadcaster.
+  readonly following: boolean
+
+  /// The current user's permissions, synced in `attributes.permissions`. It does not check the room's writable state.
+  readonly permissions: Permissions
+
+  /// Health of syncing, derived from the plugin, the room's phase and writable state.
+  readonly syncStatus: SyncStatus
+
   /// Including the camera (centerX, centerY, scale) and the container's size (width, height).
   /// This field is synced with all clients unless `freedom` is `true`.
   readonly cameraState: CameraState
@@ -118,11 +227,18 @@ export interface WindowManager {
   readonly pageState: PageState
 
   /// All window's state is synced, that is to say either all windows are minimized, or maximized, or normal.
+  /// If `perAppBoxState` is `true`, this is always `"normal"`, see `getAppInfo(appId).boxState` instead.
   readonly boxState: TeleBoxState
 
   /// Read synced states.
   readonly attributes: {}
 
+  /// If `true`, `undo()` can revert the last operation.
+  readonly canUndo: boolean
+
+  /// If `true`, `redo()` can redo the last reverted operation.
+  readonly canRedo: boolean
+
   /// Write a log to the whiteboard server.
   log(...args: any[]): void
 
@@ -146,6 +262,10 @@ export interface WindowManager {
   /// It can silently fail when room is not writable.
   mergeAttributes(partial: {}): void
 
+  /// Connect a storage that is not bound to any app, e.g. class status, quiz mode.
+  /// Pass no `namespace` to use the default main storage. Storages are disconnected in `dispose()`.
+  connectStorage<State extends Record<string, any>, Events = {}>(namespace?: string, defaultState?: State, options?: StorageOptions): Storage<State, Events>
+
   /// Handy method to add listener on `attributes`.
   reaction<T>(getter: () => T, callback: (value: T, prev?: T) => void, options?: { key?: string; fireImmediately?: boolean }): () => void
 
@@ -167,7 +287,23 @@ export interface WindowManager {
   /// Update `freedom`.
   setFreedom(freedom: boolean): void
 
+  /// Set the broadcaster for all clients, or pass `null` to let anyone move the camera, requires the `camera` permission.
+  /// When there's a broadcaster, only the broadcaster's camera is synced to others.
+  setBroadcaster(observerId: number | null): void
+
+  /// Turn off `freedom` and move the camera back to the broadcaster's.
+  followBroadcaster(): void
+
+  /// Get permissions of a user by `room.uid`.
+  getPermissions(uid: string): Permissions
+
+  /// Update permissions of a user by `room.uid` for all clients, or pass `"*"` to update the default ones.
+  /// Pass `null` to reset. It can silently fail when room is not writable or without the `managePermissions` permission.
+  /// Note that permissions are checked on the client side, use room tokens for real security.
+  setPermissions(uid: string, permissions: Partial<Permissions> | null): void
+
   /// Move the viewport. Set `animationMode: "immediately"` to skip local animation.
+  /// If someone else is the broadcaster, or you have no `camera` permission, only the local viewport is moved.
   moveCamera(camera: Partial<Camera> & { readonly animationMode?: AnimationMode }): void
 
   /// Move the viewport to contain a rectangle. Set `animationMode: "immediately"` to skip local animation.
@@ -215,6 +351,53 @@ export interface WindowManager {
   /// Add a new windowed app to whiteboard. Returns the app's unique ID.
   addApp(options: AddAppOptions): string | undefined
 
+  /// Close an app for all clients, or no effect when you have no write permission.
+  closeApp(appId: string): void
+
+  /// Bring an app to the top and focus it. The new z-index is synced with all clients.
+  /// It can silently fail when room is not writable or without the `moveApp` permission.
+  focusApp(appId: string): void
+
+  /// Move and resize all visible apps to a layout for all clients.
+  /// In `"focus-one"` layout, the focused app takes the main area.
+  arrangeApps(layout: AppLayout): void
+
+  /// Update one app's box state for all clients. `"minimized"` and `"maximized"` only work when `perAppBoxState` is `true`.
+  /// It can silently fail when room is not writable or without the `resizeApp` permission.
+  setAppBoxState(appId: string, state: AppBoxState): void
+
+  /// Get the app's kind, title, position and state, or `undefined` if the app does not exist.
+  getAppInfo(appId: string): AppInfo | undefined
+
+  /// Get all apps' info, sorted by z-index from bottom to top.
+  queryAllApps(): AppInfo[]
+
+  /// Revert the current user's last operation, including adding or closing apps, moving, resizing and
+  /// focusing windows, adding, removing and switching pages. The history is local and not synced.
+  /// It can silently fail when room is not writable.
+  undo(): void
+
+  /// Redo the last reverted operation. It can silently fail when room is not writable.
+  redo(): void
+
+  /// Export the camera, pages, apps and their storages to a JSON-serializable object.
+  exportSnapshot(): WindowManagerSnapshot
+
+  /// Sizes of storages, to find out which app makes the room slow to sync.
+  inspectStorage(): StorageReport
+
+  /// Remove storages of apps that are no longer in `attributes.apps`, returns the removed namespaces.
+  /// `undo()` can still restore apps closed by the current user with their states, which are kept in memory
+  /// when they are closed. It can silently fail when room is not writable.
+  cleanupStorage(): string[]
+
+  /// Reconcile the room to a snapshot, apps not in the snapshot will be closed.
+  /// It can silently fail when room is not writable. Parts the user can not change are skipped: apps, their storages
+  /// and the registry need the `addApp` permission, closing apps needs `closeApp`, `minimized` and `maximized` need
+  /// `resizeApp`. The camera and pages are skipped if `moveCamera()` and page methods like `jumpPage()` can not
+  /// change them, see `permissions` and `broadcaster`.
+  importSnapshot(snapshot: WindowManagerSnapshot): void
+
 }
 
 class WindowManagerImpl implements WindowManager {
@@ -225,7 +408,7 @@ class WindowManagerImpl implements WindowManager {
   readonly events = new Emittery<WindowManagerEventData>()
   readonly log: Logger
 
-  readonly dom: HTMLDivElement = <div class={this.c("playground")} />
+  readonly dom: HTMLDivElement = <div class={this.c("playground")} role="application" tabIndex={0} />
   readonly sizerDOM: HTMLDivElement = <div class={this.c("sizer")} />
   readonly wrapperDOM: HTMLDivElement = <div class={this.c("wrapper")} />
   readonly mainViewDOM: HTMLDivElement = <div class={this.c("main-view")} />
@@ -236,10 +419,18 @@ class WindowManagerImpl implements WindowManager {
   readonly effectiveRect$: ReadonlyVal<Size>
   readonly frame$ = this.dispose.add(val(true))
   readonly freedom$ = this.dispose.add(val(false))
+  readonly broadcaster$ = this.dispose.add(val<number | null>(null))
+  readonly following$: ReadonlyVal<boolean>
+  readonly permissions$ = this.dispose.add(val(defaultPermissions, { equal: samePermissions }))
 
   readonly pageState$: ReadonlyVal<PageState>
+  readonly syncStatus$: ReadonlyVal<SyncStatus>
   readonly mainView: View
   readonly apps = new Map<string, App>()
+  readonly history = new History(() => this.events.emit('historyChange', { canUndo: this.canUndo, canRedo: this.canRedo }))
+  // Positions of the boxes before the current gesture, see `trackGesture()`.
+  gesture: { [appId: string]: Partial<AppMeta['position']> } = {}
+  gesturing = false
 
   constructor(readonly options: WindowManagerOptions) {
     const { room } = options
@@ -259,13 +450,24 @@ class WindowManagerImpl implements WindowManager {
     this.mainView.divElement = this.mainViewDOM
     this.dispose.add(() => room.views.forEach(view => view.release()))
 
-    if (options.readonly != null) this.setReadonly(options.readonly)
+    if (options.readonly != null || isPlayer(room)) this.setReadonly(options.readonly ?? true)
     if (options.aspectRatio != null) this.setAspectRatio(options.aspectRatio)
     if (options.baseWidth != null) this.setBaseWidth(options.baseWidth)
     if (options.prefersColorScheme != null) this.setPrefersColorScheme(options.prefersColorScheme)
     if (options.frame != null) this.setFrame(options.frame)
     if (options.freedom != null) this.setFreedom(options.freedom)
 
+    if (options.shortcuts !== false) this.dispose.make(() => {
+      const shortcuts = { ...defaultShortcuts, ...options.shortcuts }
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (event.defaultPrevented || isEditable(event.target)) return
+        const action = findShortcut(event, shortcuts)
+        if (action && this.runShortcut(action)) event.preventDefault()
+      }
+      this.dom.addEventListener('keydown', onKeyDown)
+      return () => this.dom.removeEventListener('keydown', onKeyDown)
+    })
+
     this.dispose.add(this.frame$.subscribe(frame => {
       this.dom.classList.toggle(this.c('frameless'), !frame)
     }))
@@ -314,6 +516,57 @@ class WindowManagerImpl implements WindowManager {
       { eager: true, equal: (a, b) => a.context === b.context && a.index === b.index && a.length === b.length }
     ))
 
+    if (this.player) {
+      const player = this.player
+      let progressTime = player.progressTime, timestamp = Date.now(), playing = player.phase === PlayerPhase.Playing
+      // There is no seek callback in the SDK, detect it by comparing the progress with the elapsed time.
+      // Restart the comparison on phase changes, the progress does not move while buffering or paused.
+      this.dispose.add(listenPlayer(player, 'onPhaseChanged', (phase) => {
+        progressTime = player.progressTime
+        timestamp = Date.now()
+        playing = phase === PlayerPhase.Playing
+      }))
+      this.dispose.add(listenPlayer(player, 'onProgressTimeChanged', (time: number) => {
+        const now = Date.now()
+        // Allow 1s of drift while playing, otherwise any change is a seek.
+        const seeked = playing && player.phase === PlayerPhase.Playing
+          ? Math.abs(time - progressTime - (now - timestamp) * player.playbackSpeed) > 1000
+          : time !== progressTime
+        if (seeked) this.events.emit('seek', time)
+        progressTime = time
+        timestamp = now
+        playing = player.phase === PlayerPhase.Playing
+      }))
+    }
+
+    this.syncStatus$ = this.dispose.add(from(
+      (): SyncStatus => {
+        const plugin = this.options.plugin$.value, room = this.room
+        if (room) {
+          const phase = room.phase
+          if (phase === RoomPhase.Connecting || phase === RoomPhase.Reconnecting) return 'connecting'
+          if (phase === RoomPhase.Disconnecting || phase === RoomPhase.Disconnected) return 'disconnected'
+        }
+        // `useInvisiblePlugin()` gives a dummy plugin (without `setAttributes`) before the real one is ready.
+        if (!plugin?.setAttributes) return 'plugin-missing'
+        return room && isRoomWritable(room) ? 'ready' : 'readonly'
+      },
+      notify => {
+        const disposers = [this.options.plugin$.subscribe(notify)]
+        if (this.room) disposers.push(
+          listenRoom(this.room, 'onPhaseChanged', notify),
+          listenRoom(this.room, 'onEnableWriteNowChanged', notify),
+        )
+        return () => disposers.forEach(dispose => dispose())
+      },
+      { eager: true }
+    ))
+
+    this.dispose.add(this.syncStatus$.reaction(status => {
+      this.log(`[WindowManager]: sync status ${status}`)
+      this.events.emit('syncStatusChange', status)
+    }))
+
     this.dispose.add(this.pageState$.subscribe((pageState) => {
       this.mainView.focusScenePath = this.displayer.state.sceneState.scenePath
       this.events.emit('pageStateChange', pageState)
@@ -335,7 +588,45 @@ class WindowManagerImpl implements WindowManager {
       this.mainView.moveCamera({ centerX, centerY, scale: scale * size.width / base, animationMode: AnimationMode.Immediately })
     }))
 
-    this.dispose.add(listenView(room, this.mainView, 'onCameraUpdatedByDevice', this.syncCameraToRemote))
+    // Ignore the broadcaster who left the room, otherwise nobody else can move the camera until it is reset.
+    const refreshBroadcaster = () => {
+      const broadcaster: number | null = this.attributes['broadcaster'] ?? null
+      const members = this.room?.state.roomMembers
+      const left = broadcaster !== null && members && !members.some(member => member.memberId === broadcaster)
+      this.broadcaster$.set(left ? null : broadcaster)
+    }
+    this.dispose.add(this.reaction(() => this.attributes['broadcaster'], refreshBroadcaster, { fireImmediately: true }))
+    if (this.room) this.dispose.add(listenRoom(this.room, 'onRoomStateChanged', s => { if (s.roomMembers) refreshBroadcaster() }))
+
+    this.following$ = this.dispose.add(combine([this.broadcaster$, this.freedom$], ([broadcaster, freedom]) => {
+      return !freedom && broadcaster !== null && broadcaster !== room.observerId
+    }))
+
+    this.dispose.add(this.following$.reaction(following => {
+      this.events.emit('followingChange', following)
+    }))
+
+    this.dispose.add(this.reaction(() => toJS(this.attributes['permissions']), () => {
+      this.permissions$.set(this.getPermissions(this.room?.uid || ''))
+    }, { fireImmediately: true }))
+
+    this.dispose.add(this.permissions$.subscribe(permissions => {
+      this.mainView.disableCameraTransform = !permissions.camera
+      this.telebox.boxes.forEach(box => {
+        box.setDraggable(permissions.moveApp)
+        box.setResizable(permissions.resizeApp)
+      })
+    }))
+
+    this.dispose.add(this.permissions$.reaction(permissions => {
+      this.events.emit('permissionsChange', permissions)
+    }))
+
+    this.dispose.add(listenView(room, this.mainView, 'onCameraUpdatedByDevice', () => {
+      // Followers start wandering when they move the camera, see `followBroadcaster()`.
+      if (this.following) this.setFreedom(true)
+      this.syncCameraToRemote()
+    }))
 
     this.dispose.add(listenView(room, this.mainView, 'onCameraUpdated', () => {
       this.events.emit('cameraStateChange', this.cameraState)
@@ -354,9 +645,7 @@ class WindowManagerImpl implements WindowManager {
     }))
 
     this.dispose.add(this.freedom$.reaction(freedom => {
-      if (freedom) return
-      const camera = this.attributes['camera'] || { centerX: 0, centerY: 0, scale: 1 }
-      this.mainView.moveCamera({ ...camera, scale: camera.scale * this.localScaleFactor })
+      if (!freedom) this.syncCameraToLocal()
     }))
 
     this.dispose.add(this.telebox._state$.reaction(() => {
@@ -378,8 +667,9 @@ class WindowManagerImpl implements WindowManager {
       })
     }))
 
+    // Without the permission, the title bar buttons only change the local boxes.
     this.telebox.events.on("minimized", (minimized) => {
-      this.mergeAttributes({ minimized })
+      if (this.permissions.resizeApp) this.mergeAttributes({ minimized })
       if (minimized) {
         this.telebox.blurAll()
       } else {
@@ -388,50 +678,175 @@ class WindowManagerImpl implements WindowManager {
     })
 
     this.telebox.events.on("maximized", (maximized) => {
-      this.mergeAttributes({ maximized })
+      if (this.permissions.resizeApp) this.mergeAttributes({ maximized })
+    })
+
+    this.dispose.add(this.reaction(() => this.attributes['minimized'], (minimized?: boolean) => {
+      if (!this.options.perAppBoxState) this.telebox.setMinimized(!!minimized, true)
+    }, { fireImmediately: true }))
+
+    this.dispose.add(this.reaction(() => this.attributes['maximized'], (maximized?: boolean) => {
+      if (!this.options.perAppBoxState) this.telebox.setMaximized(!!maximized, true)
+    }, { fireImmediately: true }))
+
+    this.telebox.events.on("focused", (box) => {
+      const app = box && this.apps.get(box.id)
+      if (app) this.events.emit('appFocused', app.info)
     })
 
     this.telebox.events.on("removed", (boxes) => {
+      if (!this.permissions.closeApp) return
       const apps = {} as { [id: string]: undefined }
       boxes.forEach(box => { apps[box.id] = void 0 })
       this.mergeAttributes({ apps })
     })
 
-    this.telebox.events.on("intrinsic_move", debounced((box) => {
-      const position = { x: box.intrinsicX, y: box.intrinsicY }
-      this.mergeAttributes({ apps: { [box.id]: { position } } })
-    }, 50))
+    // Sync the position at most once per 50ms, and snap the box after dragging, i.e. the last "intrinsic_move" after "pointerup".
+    let dragged: ReadonlyTeleBox | undefined, resized: ReadonlyTeleBox | undefined
+    const onIntrinsicMove = debounced((box: ReadonlyTeleBox) => {
+      if (!this.permissions.moveApp) return
+      let position = { x: box.intrinsicX, y: box.intrinsicY }
+      if (options.snap !== false && !this.gesturing) {
+        position = this.snapApp(box)
+        this.apps.get(box.id)?.box.move(position.x, position.y, true)
+      }
+      this.moveAppsOp({ [box.id]: position })
+      if (!this.gesturing) this.commitGesture()
+    }, 50)
+
+    this.telebox.events.on("intrinsic_move", (box) => {
+      if (!this.permissions.moveApp) return
+      this.trackGesture(box.id, ['x', 'y'])
+      dragged = box
+      onIntrinsicMove(box)
+    })
 
-    this.telebox.events.on("intrinsic_resize", debounced((box) => {
-      const position = { width: box.intrinsicWidth, height: box.intrinsicHeight }
-      this.mergeAttributes({ apps: { [box.id]: { position } } })
-    }, 200))
+    const onIntrinsicResize = debounced((box: ReadonlyTeleBox) => {
+      if (!this.permissions.resizeApp) return
+      this.moveAppsOp({ [box.id]: { width: box.intrinsicWidth, height: box.intrinsicHeight } })
+      if (!this.gesturing) this.commitGesture()
+    }, 200)
+
+    this.telebox.events.on("intrinsic_resize", (box) => {
+      if (!this.permissions.resizeApp) return
+      this.trackGesture(box.id, ['width', 'height'])
+      resized = box
+      onIntrinsicResize(box)
+    })
 
+    // Boxes are also raised when they are created or restored, only clicking and `focusApp()` are recorded.
     this.telebox.events.on("z_index", (box) => {
-      const position = { z: box.zIndex }
-      this.mergeAttributes({ apps: { [box.id]: { position } } })
+      if (!this.permissions.moveApp || !this.apps.has(box.id)) return
+      if (this.gesturing) this.trackGesture(box.id, ['z'])
+      this.moveAppsOp({ [box.id]: { z: box.zIndex } })
     })
 
-    this.dispose.add(this.reaction(() => this.attributes['apps'], (apps?: { [id: string]: AppMeta }) => {
-      // TODO: refresh apps
-    }))
+    // One pointer gesture is one history entry, it is recorded after the last sync.
+    this.dispose.make(() => {
+      const onPointerDown = () => { this.gesturing = true; dragged = resized = void 0 }
+      const onPointerUp = () => {
+        if (!this.gesturing) return
+        this.gesturing = false
+        if (dragged) onIntrinsicMove(dragged)
+        if (resized) onIntrinsicResize(resized)
+        if (!dragged && !resized) this.commitGesture()
+      }
+      this.dom.addEventListener('pointerdown', onPointerDown, true)
+      window.addEventListener('pointerup', onPointerUp, true)
+      return () => {
+        this.dom.removeEventListener('pointerdown', onPointerDown, true)
+        window.removeEventListener('pointerup', onPointerUp, true)
+      }
+    })
+
+    // Read the keys instead of `attributes.apps` so that adding or removing one app can trigger the reaction.
+    this.dispose.add(this.reaction(() => {
+      const apps = this.attributes['apps'] || {}
+      return Object.keys(apps).filter(id => apps[id]).join()
+    }, this.refreshApps, { fireImmediately: true }))
+
+    this.dispose.add(this.reaction(() => toJS(this.attributes['registry']), this.refreshRegistry, { fireImmediately: true }))
+
+    this.dispose.add(() => {
+      this.apps.forEach(app => app.dispose())
+      this.apps.clear()
+    })
+  }
+
+  connectStorage<State extends Record<string, any>, Events = {}>(namespace?: string, defaultState?: State, options?: StorageOptions): Storage<State, Events> {
+    namespace = namespace ? kMainStorage + ':' + namespace : kMainStorage
+    const storage = this.dispose.add(new Storage<State, Events>(this.options.plugin$, namespace, defaultState, options))
+    storage.on('disconnected', () => this.dispose.remove(storage))
+    return storage
   }
 
   reaction<T>(getter: () => T, callback: (value: T, prev?: T) => void, options: { key?: string; fireImmediately?: boolean } = {}): () => void {
     const key = options.key || Math.random().toString(36).slice(2)
-    return this.options.plugin$.subscribe(() => {
+    const dispose = this.options.plugin$.subscribe(() => {
       this.disposeMap.set(key, reaction(getter, callback, options))
       options.fireImmediately = true
     })
+    return () => {
+      dispose()
+      this.disposeMap.flush(key)
+    }
+  }
+
+  /// Register remote apps from `attributes.registry`, local definitions always take precedence.
+  refreshRegistry = (entries?: { [kind: string]: Omit<RemoteNetlessApp, 'kind'> }) => {
+    if (entries) for (const kind of Object.keys(entries)) {
+      const { src, name, format, sri, sandbox } = entries[kind] || {}
+      if (src && !registry.has(kind)) {
+        const app: RemoteNetlessApp = { kind, src, name, format, sri, sandbox }
+        if (!this.options.checkRemoteApp || this.options.checkRemoteApp(app)) {
+          try {
+            register(app)
+          } catch (error) {
+            this.log(`[WindowManager]: refused to register remote app ${kind} from ${src}: ${error}`)
+          }
+        } else {
+          this.log(`[WindowManager]: refused to register remote app ${kind} from ${src}`)
+        }
+      }
+    }
+  }
+
+  /// Create apps that appear in `attributes.apps` and close apps that disappear from it.
+  refreshApps = () => {
+    const apps: { [id: string]: AppMeta | undefined } = this.attributes['apps'] || {}
+    for (const [id, app] of this.apps) if (!apps[id]) {
+      const info = app.info
+      this.apps.delete(id)
+      app.close()
+      this.events.emit('appClosed', info)
+    }
+    for (const id of Object.keys(apps)) {
+      const meta = apps[id]
+      if (meta && !this.apps.has(id)) {
+        this.createApp(meta.kind, id, false, meta.title)
+      }
+    }
+  }
+
+  createApp(kind: string, id: string, isAddApp: boolean, title: string, state?: {}): App {
+    const app = new App(this, kind, id, isAddApp, title, state)
+    this.apps.set(id, app)
+    this.events.emit('appAdded', app.info)
+    return app
   }
 
   syncCameraToRemote = this.dispose.add(debounced(() => {
-    if (this.freedom) return
+    if (!this.canWriteCamera) return
     const camera = this.mainView.camera
     const scale = camera.scale / this.localScaleFactor
     this.setAttributes({ camera: { ...camera, scale, id: this.options.room.observerId } })
   }, 100))
 
+  syncCameraToLocal() {
+    const camera = this.attributes['camera'] || { centerX: 0, centerY: 0, scale: 1 }
+    this.mainView.moveCamera({ ...camera, scale: camera.scale * this.localScaleFactor })
+  }
+
   syncMainView = this.dispose.add(debounced(() => {
     if (isRoomWritable(this.options.room)) this.options.room.syncMainView(this.mainView)
   }, 1000))
@@ -558,15 +973,63 @@ class WindowManagerImpl implements WindowManager {
     this.freedom$.set(freedom)
   }
 
+  get broadcaster(): number | null {
+    return this.broadcaster$.value
+  }
+
+  get following(): boolean {
+    return this.following$.value
+  }
+
+  // Only the broadcaster (or anyone if there's no broadcaster) can write `attributes.camera`.
+  get canWriteCamera(): boolean {
+    const broadcaster = this.broadcaster
+    return !this.freedom && this.permissions.camera && (broadcaster === null || broadcaster === this.options.room.observerId)
+  }
+
+  get permissions(): Permissions {
+    return this.permissions$.value
+  }
+
+  get syncStatus(): SyncStatus {
+    return this.syncStatus$.value
+  }
+
+  getPermissions(uid: string): Permissions {
+    const table = this.attributes['permissions'] || {}
+    return { ...defaultPermissions, ...table['*'], ...table[uid] }
+  }
+
+  setPermissions(uid: string, permissions: Partial<Permissions> | null) {
+    if (!this.canOperate || !this.permissions.managePermissions) return
+    this.mergeAttributes({ permissions: {} })
+    this.updateAttributes(['permissions', uid], permissions ? { ...permissions } : void 0)
+  }
+
+  setBroadcaster(observerId: number | null) {
+    if (!this.canOperate || !this.permissions.camera) return
+    this.setAttributes({ broadcaster: observerId })
+    if (observerId === this.options.room.observerId) this.syncCameraToRemote()
+  }
+
+  followBroadcaster() {
+    if (this.freedom) {
+      this.setFreedom(false)
+    } else {
+      this.syncCameraToLocal()
+    }
+  }
+
   moveCamera(camera: Partial<Camera> & { readonly animationMode?: AnimationMode }) {
     const { centerX, centerY, scale } = this.cameraState
+    const local = !this.canWriteCamera
     let id = ~this.options.room.observerId // ~x = -x - 1
-    if (camera.animationMode === AnimationMode.Immediately || this.freedom) {
+    if (camera.animationMode === AnimationMode.Immediately || local) {
       id = this.options.room.observerId
       const scale = (camera.scale || this.cameraState.scale) * this.localScaleFactor
       this.mainView.moveCamera({ ...camera, scale })
     }
-    if (!this.freedom) {
+    if (!local) {
       this.setAttributes({ camera: { centerX, centerY, scale, ...camera, id, animationMode: void 0 } })
     }
   }
@@ -584,41 +1047,37 @@ class WindowManagerImpl implements WindowManager {
   }
 
   addPage(options: { readonly scene?: SceneDefinition; readonly after?: boolean } = {}) {
-    if (this.room && isRoomWritable(this.room)) {
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
       const { contextPath, index } = this.room.state.sceneState
-      this.room.putScenes(contextPath, [options.scene || {}], options.after ? index + 1 : void 0)
+      this.history.push(this.putPageOp(this.room, contextPath, options.scene || {}, options.after ? index + 1 : void 0))
     }
   }
 
   removePage(index?: number) {
-    if (this.room && isRoomWritable(this.room)) {
-      const { contextPath, scenePath, scenes } = this.room.state.sceneState
-      if (index == null || !scenes[index]) {
-        this.room.removeScenes(scenePath)
-      } else {
-        const path = (contextPath === '/' ? '' : contextPath) + '/' + scenes[index].name
-        this.room.removeScenes(path)
-      }
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
+      const { contextPath, sceneName, scenes } = this.room.state.sceneState
+      const name = index == null || !scenes[index] ? sceneName : scenes[index].name
+      this.history.push(this.removePageOp(this.room, contextPath, name))
     }
   }
 
   jumpPage(index: number) {
-    if (this.room && isRoomWritable(this.room)) {
-      this.room.setSceneIndex(index)
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
+      this.history.push(this.jumpPageOp(this.room, index))
     }
   }
 
   prevPage() {
-    if (this.room && isRoomWritable(this.room)) {
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
       const { index } = this.room.state.sceneState
-      if (index > 0) this.room.setSceneIndex(index - 1)
+      if (index > 0) this.history.push(this.jumpPageOp(this.room, index - 1))
     }
   }
 
   nextPage() {
-    if (this.room && isRoomWritable(this.room)) {
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
       const { index, scenes } = this.room.state.sceneState
-      if (index + 1 < scenes.length) this.room.setSceneIndex(index + 1)
+      if (index + 1 < scenes.length) this.history.push(this.jumpPageOp(this.room, index + 1))
     }
   }
 
@@ -644,23 +1103,300 @@ class WindowManagerImpl implements WindowManager {
   }
 
   addApp(options: AddAppOptions): string | undefined {
-    if (this.canOperate) {
-      const { kind, src, name, title, state } = options
+    if (this.canOperate && this.permissions.addApp) {
+      const { kind, src, name, format, sri, sandbox, title, state } = options
       if (src) {
+        if (!registry.has(kind)) register({ kind, src, name, format, sri, sandbox })
         this.mergeAttributes({ registry: {} })
-        this.updateAttributes(['registry', kind], { src, name })
+        this.updateAttributes(['registry', kind], { src, name, format, sri, sandbox })
       }
 
-      const id = nextAppId(new Set(Object.keys(this.attributes[kStorage])), kind)
+      const id = nextAppId(new Set(Object.keys(this.attributes[kStorage] || {})), kind)
       this.mergeAttributes({ [kStorage]: {} })
       this.updateAttributes([kStorage, id], state)
 
-      this.apps.set(id, new App(this, kind, id, true, title || id, state))
+      const app = this.createApp(kind, id, true, title || id, state)
+
+      // Store attributes.apps[id] to trigger other clients creating this app.
+      this.mergeAttributes({ apps: {} })
+      this.updateAttributes(['apps', id], app.meta)
+      this.history.push(() => this.removeAppOp(id))
 
       return id
     }
   }
 
+  closeApp(appId: string) {
+    if (this.canOperate && this.permissions.closeApp && this.apps.has(appId)) {
+      this.history.push(this.removeAppOp(appId))
+    }
+  }
+
+  focusApp(appId: string) {
+    if (!this.canOperate || !this.permissions.moveApp) return
+    const app = this.apps.get(appId), top = this.telebox.topBox
+    if (app) {
+      this.telebox.focusBox(app.box)
+      if (top && top !== app.box) {
+        this.trackGesture(appId, ['z'])
+        // Emits "z_index" so that the new z is synced.
+        app.box.setZIndex(top.zIndex + 1)
+        if (!this.gesturing) this.commitGesture()
+      }
+    }
+  }
+
+  /// Remember the synced position of a box before the current gesture changes it.
+  trackGesture(appId: string, keys: (keyof AppMeta['position'])[]) {
+    const meta: AppMeta | undefined = this.attributes['apps']?.[appId]
+    if (!meta || !this.apps.has(appId)) return
+    const prev = this.gesture[appId] ||= {}
+    for (const key of keys) if (!(key in prev)) prev[key] = meta.position[key]
+  }
+
+  /// Record the positions remembered by `trackGesture()` as one history entry.
+  commitGesture() {
+    const prev = this.gesture
+    this.gesture = {}
+    if (Object.keys(prev).length > 0 && this.canOperate) this.history.push(() => this.moveAppsOp(prev))
+  }
+
+  arrangeApps(layout: AppLayout) {
+    if (!this.canOperate || !this.permissions.moveApp || !this.permissions.resizeApp) return
+    const apps = Array.from(this.apps.values()).filter(app => app.boxState !== 'hidden' && app.boxState !== 'minimized')
+    const focused = apps.find(app => app.box.focus) || apps.find(app => app.box === this.telebox.topBox)
+    const z = (this.telebox.topBox?.zIndex ?? 99) + 1
+    if (!this.options.perAppBoxState && this.telebox.maximized) this.telebox.setMaximized(false)
+    this.history.push(this.moveAppsOp(arrange(layout, apps.map(app => app.id), focused?.id, z)))
+  }
+
+  /// Returns the snapped position of a box, see `options.snap`.
+  snapApp(box: ReadonlyTeleBox): { x: number; y: number } {
+    const { width, height } = this.telebox._containerRect$.value
+    const rect = { x: box.intrinsicX, y: box.intrinsicY, width: box.intrinsicWidth, height: box.intrinsicHeight, z: box.zIndex }
+    const others = Array.from(this.apps.values(), app => app.box).filter(other => other !== box && other.visible && !other.minimized)
+      .map(other => ({ x: other.intrinsicX, y: other.intrinsicY, width: other.intrinsicWidth, height: other.intrinsicHeight, z: other.zIndex }))
+    return snap(rect, others, { x: 8 / (width || 1280), y: 8 / (height || 720) })
+  }
+
+  setAppBoxState(appId: string, boxState: AppBoxState) {
+    if (this.canOperate && this.permissions.resizeApp && this.apps.has(appId)) {
+      this.mergeAttributes({ apps: { [appId]: { boxState } } })
+    }
+  }
+
+  getAppInfo(appId: string): AppInfo | undefined {
+    return this.apps.get(appId)?.info
+  }
+
+  queryAllApps(): AppInfo[] {
+    return Array.from(this.apps.values(), app => app.info).sort((a, b) => a.position.z - b.position.z)
+  }
+
+  /// Returns `true` if the shortcut is handled.
+  runShortcut(action: ShortcutAction): boolean {
+    const apps = Array.from(this.apps.values()).filter(app => app.box.visible && !app.box.minimized)
+    const focused = apps.find(app => app.box.focus)
+
+    if (action === 'focusNextApp' || action === 'focusPrevApp') {
+      if (apps.length === 0) return false
+      // Cycle in the order of creation, because focusing an app changes the z-index.
+      const i = focused ? apps.indexOf(focused) : -1, n = apps.length
+      const app = apps[action === 'focusNextApp' ? (i + 1) % n : (i < 0 ? n - 1 : (i + n - 1) % n)]
+      // Readers can still switch windows, only the local focus is changed then.
+      this.telebox.focusBox(app.box)
+      this.focusApp(app.id)
+      app.box.$box.focus()
+      return true
+    }
+
+    if (this.readonly) return false
+
+    if (action === 'zoomIn' || action === 'zoomOut') {
+      if (!this.permissions.camera) return false
+      const scale = this.cameraState.scale * (action === 'zoomIn' ? 1.25 : 0.8)
+      this.moveCamera({ scale })
+      return true
+    }
+
+    if (!this.canOperate) return false
+
+    if (action === 'nextPage') this.nextPage()
+    else if (action === 'prevPage') this.prevPage()
+    else if (!focused) return false
+    else if (action === 'closeApp') this.closeApp(focused.id)
+    else if (this.options.perAppBoxState) {
+      const maximize = action === 'maximizeApp', state = focused.boxState
+      this.setAppBoxState(focused.id, maximize ? (state === 'maximized' ? 'normal' : 'maximized') : 'minimized')
+    }
+    else if (action === 'maximizeApp') this.telebox.setMaximized(!this.telebox.maximized)
+    else this.telebox.setMinimized(true)
+    return true
+  }
+
+  get canUndo(): boolean {
+    return this.history.canUndo
+  }
+
+  get canRedo(): boolean {
+    return this.history.canRedo
+  }
+
+  undo() {
+    if (this.canOperate) this.history.undo()
+  }
+
+  redo() {
+    if (this.canOperate) this.history.redo()
+  }
+
+  // Operations below do something and return the operation to revert it, see `History`.
+
+  removeAppOp(appId: string): Operation | void {
+    const meta: AppMeta | undefined = toJS(this.attributes['apps']?.[appId])
+    if (!meta || !this.canOperate) return
+    const storage = this.appStorage(appId)
+    this.mergeAttributes({ apps: { [appId]: undefined } })
+    return () => this.restoreAppOp(appId, meta, storage)
+  }
+
+  restoreAppOp(appId: string, meta: AppMeta, storage: { [namespace: string]: {} }): Operation | void {
+    if (!this.canOperate) return
+    this.mergeAttributes({ [kStorage]: {}, apps: {} })
+    for (const namespace of Object.keys(storage)) {
+      this.updateAttributes([kStorage, namespace], storage[namespace])
+    }
+    this.updateAttributes(['apps', appId], meta)
+    return () => this.removeAppOp(appId)
+  }
+
+  moveAppsOp(positions: { [appId: string]: Partial<AppMeta['position']> }): Operation | void {
+    const apps: { [appId: string]: AppMeta | undefined } = this.attributes['apps'] || {}
+    const prev: typeof positions = {}, next: { [appId: string]: { position: Partial<AppMeta['position']> } } = {}
+    for (const id of Object.keys(positions)) {
+      const meta = apps[id]
+      if (!meta) continue
+      prev[id] = {}
+      for (const key of Object.keys(positions[id]) as (keyof AppMeta['position'])[]) prev[id][key] = meta.position[key]
+      next[id] = { position: positions[id] }
+    }
+    if (!this.canOperate || Object.keys(next).length === 0) return
+    this.mergeAttributes({ apps: next })
+    return () => this.moveAppsOp(prev)
+  }
+
+  putPageOp(room: Room, context: string, scene: SceneDefinition, index?: number): Operation | void {
+    const names = new Set(room.entireScenes()[context]?.map(scene => scene.name))
+    room.putScenes(context, [scene], index)
+    // Overwriting an existing page can not be reverted.
+    const added = room.entireScenes()[context]?.find(scene => !names.has(scene.name))
+    if (added) return () => this.removePageOp(room, context, added.name)
+  }
+
+  removePageOp(room: Room, context: string, name: string): Operation | void {
+    const scenes = room.entireScenes()[context] || [], index = scenes.findIndex(scene => scene.name === name)
+    if (index < 0) return
+    const { ppt } = scenes[index]
+    room.removeScenes((context === '/' ? '' : context) + '/' + name)
+    // The contents of the page are not restored.
+    return () => this.putPageOp(room, context, ppt ? { name, ppt } : { name }, index)
+  }
+
+  jumpPageOp(room: Room, index: number): Operation | void {
+    const prev = room.state.sceneState.index
+    if (prev === index) return
+    room.setSceneIndex(index)
+    return () => this.jumpPageOp(room, prev)
+  }
+
+  /// Raw values of `attributes[kStorage]` that belong to the app, including the ones created by `connectStorage()`.
+  appStorage(appId: string): { [namespace: string]: {} } {
+    const storage = {} as { [namespace: string]: {} }, all = toJS(this.attributes[kStorage]) || {}
+    for (const namespace of Object.keys(all)) {
+      if (namespace.split(':')[0] === appId) storage[namespace] = all[namespace]
+    }
+    return storage
+  }
+
+  orphanStorage(): string[] {
+    const all = this.attributes[kStorage] || {}, apps = this.attributes['apps'] || {}
+    return Object.keys(all).filter((namespace) => {
+      const appId = namespace.split(':')[0]
+      return all[namespace] !== void 0 && appId !== kMainStorage && !apps[appId]
+    })
+  }
+
+  inspectStorage(): StorageReport {
+    const all = toJS(this.attributes[kStorage]) || {}, orphans = this.orphanStorage()
+    const report: StorageReport = { total: 0, namespaces: {}, apps: {}, orphans }
+    for (const namespace of Object.keys(all)) {
+      const size = byteSize(all[namespace]), appId = namespace.split(':')[0]
+      report.namespaces[namespace] = size
+      report.total += size
+      if (appId !== kMainStorage && !orphans.includes(namespace)) report.apps[appId] = (report.apps[appId] || 0) + size
+    }
+    return report
+  }
+
+  cleanupStorage(): string[] {
+    if (!this.canOperate) return []
+    const orphans = this.orphanStorage()
+    for (const namespace of orphans) this.updateAttributes([kStorage, namespace], undefined)
+    return orphans
+  }
+
+  exportSnapshot(): WindowManagerSnapshot {
+    const { camera, minimized, maximized, apps = {}, registry = {} } = toJS(this.attributes)
+    const { contextPath, scenes } = this.displayer.state.sceneState
+    const storage = {} as WindowManagerSnapshot['storage'], all = toJS(this.attributes[kStorage]) || {}
+    for (const namespace of Object.keys(all)) {
+      if (apps[namespace.split(':')[0]]) storage[namespace] = all[namespace]
+    }
+    return {
+      version: this.version,
+      camera: camera && { centerX: camera.centerX, centerY: camera.centerY, scale: camera.scale },
+      pageState: { ...this.pageState },
+      scenes: scenes.map(({ name, ppt }) => ppt ? { name, ppt } : { name }),
+      minimized, maximized, apps, storage, registry,
+    }
+  }
+
+  importSnapshot(snapshot: WindowManagerSnapshot) {
+    if (!this.canOperate) return
+    const { camera, pageState, scenes, minimized, maximized, apps, storage, registry } = snapshot
+    const { addApp, closeApp, resizeApp } = this.permissions
+
+    if (closeApp) for (const id of Object.keys(this.attributes['apps'] || {})) {
+      if (!apps[id]) this.updateAttributes(['apps', id], undefined)
+    }
+    if (addApp) {
+      this.mergeAttributes({ registry: {}, [kStorage]: {}, apps: {} })
+      this.mergeAttributes({ registry })
+      for (const namespace of Object.keys(storage)) {
+        this.updateAttributes([kStorage, namespace], storage[namespace])
+      }
+      for (const id of Object.keys(apps)) {
+        this.updateAttributes(['apps', id], apps[id])
+      }
+    }
+    if (resizeApp) {
+      this.mergeAttributes({ minimized: !!minimized, maximized: !!maximized })
+    }
+
+    if (camera && this.canWriteCamera) {
+      this.setAttributes({ camera: { ...camera, id: ~this.displayer.observerId } })
+    }
+
+    if (this.room && isRoomWritable(this.room) && this.permissions.page) {
+      const { context, index } = pageState
+      const exist = new Set(this.room.entireScenes()[context]?.map(scene => scene.name))
+      const missing = scenes.filter(scene => !exist.has(scene.name!))
+      if (missing.length > 0) this.room.putScenes(context, missing)
+      const name = scenes[index]?.name
+      if (name) this.room.setScenePath((context === '/' ? '' : context) + '/' + name)
+    }
+  }
+
   c(name: string) {
     return this.namespace + '-' + name
   }
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createWindowManager, register, useInvisiblePlugin, type NetlessApp, type WindowManager, type WindowManagerOptions } from '../src'
+import type { NetlessAppContext } from '../src/app-context'
+import { createMockRoom } from '../src/testing'
+
+const managers: WindowManager[] = []
+
+const connect = async (options?: Partial<WindowManagerOptions>) => {
+  const a = createMockRoom(), b = a.join()
+  const p = useInvisiblePlugin('WindowManager')
+  const managerA = createWindowManager({ room: a, plugin$: p.initialize(a), ...options })
+  const managerB = createWindowManager({ room: b, plugin$: p.initialize(b), ...options })
+  managers.push(managerA, managerB)
+  await vi.waitFor(() => expect(managerA.canOperate && managerB.canOperate).toBe(true))
+  return { a, b, managerA, managerB }
+}
+
+const registerCounter = (kind: string) => {
+  const setup = vi.fn(), cleanup = vi.fn()
+  register({ kind, setup: (context) => (setup(context.appId), cleanup) })
+  return { setup, cleanup }
+}
+
+afterEach(() => {
+  managers.splice(0).forEach(manager => manager.dispose())
+})
+
+describe('apps', () => {
+  it('creates apps added by other clients', async () => {
+    const { setup } = registerCounter('Counter1')
+    const { managerA, managerB } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter1', title: 'Count', state: { count: 1 } })!
+    expect(appId).toMatch(/^Counter1-/)
+    await vi.waitFor(() => expect(setup).toHaveBeenCalledTimes(2))
+
+    expect(managerB.queryAllApps()).toEqual([expect.objectContaining({ id: appId, kind: 'Counter1', title: 'Count', state: { count: 1 } })])
+    expect(setup).toHaveBeenNthCalledWith(1, appId)
+    expect(setup).toHaveBeenNthCalledWith(2, appId)
+  })
+
+  it('removes apps closed by other clients', async () => {
+    const { cleanup } = registerCounter('Counter2')
+    const { managerA, managerB } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter2' })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+
+    managerB.closeApp(appId)
+    await vi.waitFor(() => expect(managerA.queryAllApps()).toEqual([]))
+    expect(managerB.queryAllApps()).toEqual([])
+    await vi.waitFor(() => expect(cleanup).toHaveBeenCalledTimes(2))
+  })
+
+  it('follows attributes.apps written by anyone', async () => {
+    registerCounter('Counter3')
+    const { managerA, managerB } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter3' })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+
+    managerB.updateAttributes(['apps', appId], undefined)
+    await vi.waitFor(() => expect(managerA.getAppInfo(appId)).toBeUndefined())
+  })
+
+  it('sorts apps by z-index', async () => {
+    registerCounter('Counter4')
+    const { managerA, managerB } = await connect()
+
+    const first = managerA.addApp({ kind: 'Counter4' })!
+    const second = managerA.addApp({ kind: 'Counter4' })!
+    await vi.waitFor(() => expect(managerB.queryAllApps().map(app => app.id)).toEqual([first, second]))
+
+    managerA.focusApp(first)
+    await vi.waitFor(() => expect(managerB.queryAllApps().map(app => app.id)).toEqual([second, first]))
+  })
+
+  it('keeps apps of unknown kinds until they are registered', async () => {
+    const { managerA, managerB } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter5' })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+
+    const { setup } = registerCounter('Counter5')
+    await vi.waitFor(() => expect(setup).toHaveBeenCalledTimes(2))
+  })
+
+  it('ignores addApp() and closeApp() of readers', async () => {
+    registerCounter('Counter6')
+    const { b, managerA, managerB } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter6' })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+
+    await b.setWritable(false)
+    expect(managerB.addApp({ kind: 'Counter6' })).toBeUndefined()
+    managerB.closeApp(appId)
+    expect(managerA.queryAllApps().map(app => app.id)).toEqual([appId])
+  })
+
+  it('uses the storage options of the definition', async () => {
+    const contexts: NetlessAppContext<{ count: number }>[] = []
+    const app: NetlessApp<{ count: number }> = { kind: 'Counter7', storage: { optimistic: true }, setup: (context) => { contexts.push(context) } }
+    register(app as NetlessApp)
+    const { b, managerA } = await connect()
+
+    const appId = managerA.addApp({ kind: 'Counter7', state: { count: 0 } })!
+    await vi.waitFor(() => expect(contexts).toHaveLength(2))
+
+    await b.setWritable(false)
+    contexts[1].setState({ count: 1 })
+    expect(contexts[1].state.count).toBe(1)
+    expect(managerA.getAppInfo(appId)?.state).toEqual({ count: 0 })
+
+    await b.setWritable(true)
+    expect(managerA.getAppInfo(appId)?.state).toEqual({ count: 1 })
+  })
+
+  it('disposes what the last setup() created before hot reload', async () => {
+    const { managerA } = await connect({ hotReload: true })
+    let context: NetlessAppContext | undefined
+    const define = (version: string, events: string[]) => register({
+      kind: 'Counter8',
+      setup(current) {
+        if (!current.isAddApp) return
+        context = current
+        current.on('stateChanged', () => events.push(version + ':state'))
+        current.on('close', () => events.push(version + ':close'))
+        current.connectStorage('extra', {}).on('disconnected', () => events.push(version + ':disconnected'))
+      },
+    })
+    const events: string[] = []
+    define('v1', events)
+    const appId = managerA.addApp({ kind: 'Counter8', state: { count: 0 } })!
+    await vi.waitFor(() => expect(managerA.getAppInfo(appId)).toBeDefined())
+
+    define('v2', events)
+    await vi.waitFor(() => expect(events).toEqual(['v1:disconnected']))
+    context!.setState({ count: 1 })
+    await vi.waitFor(() => expect(events).toEqual(['v1:disconnected', 'v2:state']))
+
+    managerA.closeApp(appId)
+    await vi.waitFor(() => expect(events).toEqual(['v1:disconnected', 'v2:state', 'v2:close', 'v2:disconnected']))
+  })
+
+  it('routes the title bar buttons through the manager', async () => {
+    registerCounter('Counter9')
+    const { b, managerA, managerB } = await connect({ perAppBoxState: true })
+    const appId = managerA.addApp({ kind: 'Counter9' })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+    const click = (button: string) => managerB.dom.querySelector<HTMLElement>('.telebox-box .telebox-titlebar-icon-' + button)!.click()
+
+    click('minimize')
+    await vi.waitFor(() => expect(managerA.getAppInfo(appId)?.boxState).toBe('minimized'))
+
+    managerA.setPermissions(b.uid, { closeApp: false })
+    await vi.waitFor(() => expect(managerB.permissions.closeApp).toBe(false))
+    click('close')
+    expect(managerA.getAppInfo(appId)).toBeDefined()
+    expect(managerB.getAppInfo(appId)).toBeDefined()
+  })
+
+  it('shows the texts of options while loading', async () => {
+    const { managerA } = await connect({ texts: { loading: '加载中', loadFailed: kind => kind + ' 加载失败' } })
+    managerA.addApp({ kind: 'Counter10' })
+    await vi.waitFor(() => expect(managerA.dom.querySelector('.netless-window-manager-app-status')?.textContent).toBe('加载中'))
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    register({ kind: 'Counter10', setup() { throw new Error('oops') } })
+    await vi.waitFor(() => expect(managerA.dom.querySelector('.netless-window-manager-app-status')?.textContent).toBe('Counter10 加载失败Retry'))
+    error.mockRestore()
+  })
+
+  it('resolves the version of apps whose creator never loads them', async () => {
+    const { managerA, managerB } = await connect()
+    const appId = managerA.addApp({ kind: 'Counter11', state: { value: 1 } })!
+    await vi.waitFor(() => expect(managerB.getAppInfo(appId)).toBeDefined())
+    expect(managerB.attributes['apps'][appId].version).toBeNull()
+    managerA.dispose()
+
+    const migrate = vi.fn()
+    register({ kind: 'Counter11', version: 2, migrate, setup() {} })
+    await vi.waitFor(() => expect(managerB.attributes['apps'][appId].version).toBe(2))
+    expect(migrate).not.toHaveBeenCalled()
+  })
+})
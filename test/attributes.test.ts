@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest'
+import { toJS } from 'mobx'
+import { mergeAttributes } from '../src/utils'
+import { createMockRoom } from '../src/testing'
+
+const setup = (attributes: {}) => {
+  const a = createMockRoom(), b = a.join()
+  const plugin = a.getInvisiblePlugin('Test')!
+  plugin.setAttributes(attributes)
+  const updateAttributes = vi.spyOn(plugin, 'updateAttributes')
+  return { plugin, other: b.getInvisiblePlugin('Test')!, updateAttributes }
+}
+
+describe('mergeAttributes', () => {
+  it('only writes changed leaves', () => {
+    const { plugin, other, updateAttributes } = setup({ apps: { a: { x: 0, y: 0 }, b: { x: 1, y: 1 } }, maximized: false })
+    mergeAttributes(plugin, plugin.attributes, { apps: { a: { x: 0.5, y: 0 } }, maximized: false })
+
+    expect(updateAttributes.mock.calls).toEqual([[['apps', 'a', 'x'], 0.5]])
+    expect(toJS(other.attributes)).toEqual({ apps: { a: { x: 0.5, y: 0 }, b: { x: 1, y: 1 } }, maximized: false })
+  })
+
+  it('writes new objects and type changes as a whole', () => {
+    const { plugin, other, updateAttributes } = setup({ apps: {}, focus: 'a' })
+    mergeAttributes(plugin, plugin.attributes, { apps: { c: { x: 0, y: 0 } }, focus: null })
+
+    expect(updateAttributes.mock.calls).toEqual([[['apps', 'c'], { x: 0, y: 0 }], [['focus'], null]])
+    expect(toJS(other.attributes)).toEqual({ apps: { c: { x: 0, y: 0 } }, focus: null })
+  })
+
+  it('replaces arrays', () => {
+    const { plugin, other, updateAttributes } = setup({ order: ['a', 'b', 'c'] })
+    mergeAttributes(plugin, plugin.attributes, { order: ['c', 'a'] })
+
+    expect(updateAttributes.mock.calls).toEqual([[['order'], ['c', 'a']]])
+    expect(toJS(other.attributes)).toEqual({ order: ['c', 'a'] })
+  })
+
+  it('replaces null with objects', () => {
+    const { plugin, other, updateAttributes } = setup({ camera: null, focus: null })
+    mergeAttributes(plugin, plugin.attributes, { camera: { x: 1 }, focus: null })
+
+    expect(updateAttributes.mock.calls).toEqual([[['camera'], { x: 1 }]])
+    expect(toJS(other.attributes)).toEqual({ camera: { x: 1 }, focus: null })
+  })
+})
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { TeleBoxManager } from '@netless/telebox-insider'
+import { createWindowManager, register, useInvisiblePlugin, type WindowManager } from '../src'
+import { History, type Operation } from '../src/history'
+import { createMockRoom } from '../src/testing'
+
+const counter = () => {
+  const state = { value: 0 }
+  const set = (value: number): Operation => () => {
+    const prev = state.value
+    state.value = value
+    return set(prev)
+  }
+  return { state, set }
+}
+
+describe('History', () => {
+  it('undoes and redoes operations', () => {
+    const onChange = vi.fn(), history = new History(onChange)
+    const { state, set } = counter()
+    history.push(set(1)())
+    history.push(set(2)())
+    expect(onChange).toHaveBeenCalledTimes(2)
+
+    expect(history.undo()).toBe(true)
+    expect(state.value).toBe(1)
+    expect(history.undo()).toBe(true)
+    expect(state.value).toBe(0)
+    expect(history.undo()).toBe(false)
+    expect(history.canUndo).toBe(false)
+
+    expect(history.redo()).toBe(true)
+    expect(history.redo()).toBe(true)
+    expect(state.value).toBe(2)
+    expect(history.redo()).toBe(false)
+    expect(onChange).toHaveBeenCalledTimes(6)
+  })
+
+  it('clears the redo stack on new operations', () => {
+    const history = new History(() => {})
+    const { state, set } = counter()
+    history.push(set(1)())
+    history.undo()
+    expect(history.canRedo).toBe(true)
+
+    history.push(set(3)())
+    expect(history.canRedo).toBe(false)
+    history.undo()
+    expect(state.value).toBe(0)
+  })
+
+  it('does not record operations done by undo() and redo()', () => {
+    const history = new History(() => {})
+    const { state, set } = counter()
+    // Operations call `push()` like the manager's methods do.
+    const setAndPush = (value: number): Operation => () => {
+      const inverse = set(value)()
+      history.push(inverse)
+      return inverse
+    }
+    setAndPush(1)()
+    history.undo()
+    expect(state.value).toBe(0)
+    expect(history.undoStack).toHaveLength(0)
+    expect(history.redoStack).toHaveLength(1)
+  })
+
+  it('skips empty operations and drops the oldest beyond the limit', () => {
+    const onChange = vi.fn(), history = new History(onChange, 2)
+    const { state, set } = counter()
+    history.push()
+    expect(onChange).not.toHaveBeenCalled()
+
+    history.push(set(1)())
+    history.push(set(2)())
+    history.push(set(3)())
+    while (history.undo());
+    expect(state.value).toBe(1)
+  })
+})
+
+describe('WindowManager history', () => {
+  let manager: WindowManager | undefined
+
+  afterEach(() => {
+    manager?.dispose()
+  })
+
+  it('records one entry per pointer gesture', async () => {
+    register({ kind: 'Gesture', setup() {} })
+    const room = createMockRoom()
+    manager = createWindowManager({ room, plugin$: useInvisiblePlugin('WindowManager').initialize(room), snap: false })
+    await vi.waitFor(() => expect(manager!.canOperate).toBe(true))
+    const appId = manager.addApp({ kind: 'Gesture' })!
+    await vi.waitFor(() => expect(manager!.getAppInfo(appId)).toBeDefined())
+    const { x, y, width } = manager.getAppInfo(appId)!.position
+    const telebox = (manager as unknown as { telebox: TeleBoxManager }).telebox
+
+    manager.dom.dispatchEvent(new Event('pointerdown'))
+    for (let i = 1; i <= 3; i++) {
+      telebox.update(appId, { x: x + i / 20, y: y + i / 20 })
+      await new Promise(resolve => setTimeout(resolve, 60))
+    }
+    telebox.update(appId, { width: width / 2 })
+    window.dispatchEvent(new Event('pointerup'))
+    await vi.waitFor(() => expect(manager!.getAppInfo(appId)!.position).toMatchObject({ x: x + 3 / 20, y: y + 3 / 20, width: width / 2 }))
+
+    manager.undo()
+    expect(manager.getAppInfo(appId)!.position).toMatchObject({ x, y, width })
+    manager.redo()
+    expect(manager.getAppInfo(appId)!.position).toMatchObject({ x: x + 3 / 20, y: y + 3 / 20, width: width / 2 })
+    manager.undo()
+    manager.undo()
+    expect(manager.getAppInfo(appId)).toBeUndefined()
+  })
+})
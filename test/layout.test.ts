@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createWindowManager, register, useInvisiblePlugin, type WindowManager } from '../src'
+import { arrange, snap, type AppLayout } from '../src/layout'
+import { createMockRoom } from '../src/testing'
+
+type Rect = { x: number, y: number, width: number, height: number }
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => 'app' + i)
+
+const rects = (layout: AppLayout, n: number, focused?: string) => Object.values(arrange(layout, ids(n), focused)) as Rect[]
+
+const inside = (rect: Rect) =>
+  rect.x >= 0 && rect.y >= 0 && rect.x + rect.width <= 1 + 1e-9 && rect.y + rect.height <= 1 + 1e-9
+
+const overlap = (a: Rect, b: Rect) =>
+  Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) > 1e-9 &&
+  Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) > 1e-9
+
+const area = (list: Rect[]) => list.reduce((sum, rect) => sum + rect.width * rect.height, 0)
+
+describe('arrange', () => {
+  it('returns nothing without apps', () => {
+    expect(arrange('grid', [])).toEqual({})
+  })
+
+  it.each([1, 2, 4, 5, 9])('tiles %i apps in a grid', (n) => {
+    const list = rects('grid', n)
+    expect(list).toHaveLength(n)
+    expect(list.every(inside)).toBe(true)
+    list.forEach((a, i) => list.slice(i + 1).forEach(b => expect(overlap(a, b)).toBe(false)))
+    // Only the last row may have empty cells.
+    const cols = Math.ceil(Math.sqrt(n)), rows = Math.ceil(n / cols)
+    expect(area(list)).toBeCloseTo(n / (cols * rows))
+  })
+
+  it('keeps cascaded windows inside and raises the later ones', () => {
+    for (const n of [2, 10, 30]) {
+      const list = rects('cascade', n)
+      expect(list.every(inside)).toBe(true)
+      expect(list.map(rect => (rect as { z?: number }).z)).toEqual(ids(n).map((_, i) => 100 + i))
+      expect(list[n - 1].x).toBeGreaterThan(list[0].x)
+    }
+  })
+
+  it('puts apps side by side', () => {
+    expect(arrange('side-by-side', ['a', 'b', 'c'])).toEqual({
+      a: { x: 0, y: 0, width: 1 / 3, height: 1 },
+      b: { x: 1 / 3, y: 0, width: 1 / 3, height: 1 },
+      c: { x: 2 / 3, y: 0, width: 1 / 3, height: 1 },
+    })
+  })
+
+  it('gives the focused app the main area', () => {
+    const positions = arrange('focus-one', ['a', 'b', 'c'], 'b')
+    expect(positions.b).toEqual({ x: 0, y: 0, width: 0.75, height: 1 })
+    expect(positions.a).toEqual({ x: 0.75, y: 0, width: 0.25, height: 0.5 })
+    expect(positions.c).toEqual({ x: 0.75, y: 0.5, width: 0.25, height: 0.5 })
+
+    expect(arrange('focus-one', ['a', 'b'], 'unknown').a).toEqual({ x: 0, y: 0, width: 0.75, height: 1 })
+    expect(arrange('focus-one', ['a']).a).toEqual({ x: 0, y: 0, width: 1, height: 1 })
+  })
+})
+
+describe('snap', () => {
+  const threshold = { x: 0.02, y: 0.03 }
+  const rect = (x: number, y: number, width = 0.3, height = 0.3, z = 0) => ({ x, y, width, height, z })
+
+  it('snaps to the edges of the container', () => {
+    expect(snap(rect(0.01, 0.5), [], threshold)).toEqual({ x: 0, y: 0.5 })
+    expect(snap(rect(0.5, 0.68), [], threshold)).toEqual({ x: 0.5, y: 0.7 })
+  })
+
+  it('snaps to the edges of other windows', () => {
+    const other = rect(0.5, 0.5)
+    // Right next to the other one, top edges aligned.
+    expect(snap(rect(0.19, 0.52), [other], threshold)).toEqual({ x: 0.2, y: 0.5 })
+    // Below the other one, left edges aligned.
+    expect(snap(rect(0.51, 0.81, 0.3, 0.1), [other], threshold)).toEqual({ x: 0.5, y: 0.8 })
+  })
+
+  it('uses the threshold of each axis and the nearest edge', () => {
+    expect(snap(rect(0.025, 0.025), [], threshold)).toEqual({ x: 0.025, y: 0 })
+    // Left of the others, 0.185 and 0.21 are both within the threshold.
+    const { x, y } = snap(rect(0.2, 0.2), [rect(0.485, 0.7), rect(0.51, 0.7)], threshold)
+    expect(x).toBeCloseTo(0.21)
+    expect(y).toBe(0.2)
+  })
+})
+
+describe('arrangeApps', () => {
+  let manager: WindowManager | undefined
+
+  afterEach(() => {
+    manager?.dispose()
+  })
+
+  it('moves all windows at once and reverts them with one undo()', async () => {
+    register({ kind: 'Layout', setup() {} })
+    const room = createMockRoom()
+    manager = createWindowManager({ room, plugin$: useInvisiblePlugin('WindowManager').initialize(room) })
+    await vi.waitFor(() => expect(manager!.canOperate).toBe(true))
+    const apps = [manager.addApp({ kind: 'Layout' })!, manager.addApp({ kind: 'Layout' })!]
+    const before = apps.map(id => manager!.getAppInfo(id)!.position)
+
+    manager.arrangeApps('side-by-side')
+    expect(apps.map(id => manager!.getAppInfo(id)!.position)).toEqual([
+      expect.objectContaining({ x: 0, y: 0, width: 0.5, height: 1 }),
+      expect.objectContaining({ x: 0.5, y: 0, width: 0.5, height: 1 }),
+    ])
+
+    manager.undo()
+    expect(apps.map(id => manager!.getAppInfo(id)!.position)).toEqual(before)
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createWindowManager, register, useInvisiblePlugin, type WindowManager } from '../src'
+import { createMockRoom } from '../src/testing'
+
+const managers: WindowManager[] = []
+
+const connect = async () => {
+  const a = createMockRoom(), b = a.join()
+  const p = useInvisiblePlugin('WindowManager')
+  const managerA = createWindowManager(p.initialize(a)), managerB = createWindowManager(p.initialize(b))
+  managers.push(managerA, managerB)
+  await vi.waitFor(() => expect(managerA.canOperate && managerB.canOperate).toBe(true))
+  return { a, b, managerA, managerB }
+}
+
+afterEach(() => {
+  managers.splice(0).forEach(manager => manager.dispose())
+})
+
+describe('permissions', () => {
+  it('requires managePermissions to change permissions', async () => {
+    const { a, b, managerA, managerB } = await connect()
+    managerA.setPermissions(a.uid, { managePermissions: true })
+    managerA.setPermissions('*', { camera: false, managePermissions: false })
+    await vi.waitFor(() => expect(managerB.permissions.managePermissions).toBe(false))
+
+    managerB.setPermissions(b.uid, { camera: true, managePermissions: true })
+    managerB.setPermissions('*', null)
+    expect(managerA.getPermissions(b.uid)).toMatchObject({ camera: false, managePermissions: false })
+    expect(managerA.permissions.managePermissions).toBe(true)
+
+    managerA.setPermissions(b.uid, { camera: true })
+    await vi.waitFor(() => expect(managerB.permissions.camera).toBe(true))
+  })
+
+  it('skips parts of importSnapshot() without permissions', async () => {
+    register({ kind: 'Note', setup() {} })
+    const { b, managerA, managerB } = await connect()
+    const kept = managerA.addApp({ kind: 'Note', state: { text: 'kept' } })!
+    const snapshot = managerA.exportSnapshot()
+    const added = managerA.addApp({ kind: 'Note' })!
+    managerA.closeApp(kept)
+    await vi.waitFor(() => expect(managerB.queryAllApps().map(app => app.id)).toEqual([added]))
+
+    managerA.setPermissions(b.uid, { addApp: false, resizeApp: false })
+    await vi.waitFor(() => expect(managerB.permissions.addApp).toBe(false))
+    managerB.importSnapshot({ ...snapshot, maximized: true })
+    expect(managerA.queryAllApps().map(app => app.id)).toEqual([])
+    expect(managerA.attributes['maximized']).toBeFalsy()
+
+    managerA.setPermissions(b.uid, { closeApp: false })
+    await vi.waitFor(() => expect(managerB.permissions).toMatchObject({ addApp: true, closeApp: false }))
+    managerA.addApp({ kind: 'Note' })
+    const current = managerA.queryAllApps().map(app => app.id)
+    managerB.importSnapshot(snapshot)
+    expect(managerA.queryAllApps().map(app => app.id).sort()).toEqual([...current, kept].sort())
+    expect(managerA.getAppInfo(kept)?.state).toEqual({ text: 'kept' })
+  })
+
+  it('requires moveApp to focus apps', async () => {
+    register({ kind: 'Note', setup() {} })
+    const { b, managerA, managerB } = await connect()
+    const first = managerA.addApp({ kind: 'Note' })!
+    const second = managerA.addApp({ kind: 'Note' })!
+    await vi.waitFor(() => expect(managerB.queryAllApps().map(app => app.id)).toEqual([first, second]))
+
+    managerA.setPermissions(b.uid, { moveApp: false })
+    await vi.waitFor(() => expect(managerB.permissions.moveApp).toBe(false))
+    managerB.focusApp(first)
+    expect(managerA.queryAllApps().map(app => app.id)).toEqual([first, second])
+  })
+})
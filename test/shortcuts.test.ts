@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { defaultShortcuts, findShortcut } from '../src/shortcuts'
+
+const press = (key: string, init: KeyboardEventInit) => new KeyboardEvent('keydown', { key, ...init })
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('findShortcut', () => {
+  const shortcuts = { ...defaultShortcuts, zoomIn: 'Mod+=' }
+
+  it('maps Mod to Meta by the platform of client hints', () => {
+    vi.stubGlobal('navigator', { userAgentData: { platform: 'macOS' }, userAgent: 'Windows' })
+    expect(findShortcut(press('=', { metaKey: true }), shortcuts)).toBe('zoomIn')
+    expect(findShortcut(press('=', { ctrlKey: true }), shortcuts)).toBeUndefined()
+  })
+
+  it('falls back to the user agent', () => {
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)' })
+    expect(findShortcut(press('=', { metaKey: true }), shortcuts)).toBe('zoomIn')
+
+    vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)' })
+    expect(findShortcut(press('=', { ctrlKey: true }), shortcuts)).toBe('zoomIn')
+  })
+})
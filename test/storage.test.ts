@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from 'vitest'
+import { toJS } from 'mobx'
+import { val } from 'value-enhancer'
+import { kStorage, Storage, type Diff } from '../src/synced-store'
+import { byteSize } from '../src/utils'
+import { createMockRoom } from '../src/testing'
+
+const connect = <S extends {}>(defaultState: S) => {
+  const a = createMockRoom(), b = a.join()
+  const storageA = new Storage(val(a.getInvisiblePlugin('Test')), 'test', defaultState)
+  const storageB = new Storage(val(b.getInvisiblePlugin('Test')), 'test', defaultState, { optimistic: true })
+  return { a, b, storageA, storageB }
+}
+
+describe('Storage', () => {
+  it('syncs setState() to other clients', () => {
+    const { storageA, storageB } = connect({ count: 0 })
+    const changed = vi.fn<(diff: Diff<{ count: number }>) => void>()
+    storageB.on('stateChanged', changed)
+
+    storageA.setState({ count: 1 })
+    expect(storageB.state).toEqual({ count: 1 })
+    expect(changed).toHaveBeenCalledWith({ count: expect.objectContaining({ oldValue: 0, newValue: 1 }) })
+  })
+
+  it('syncs nested values written by setIn()', () => {
+    const { storageA, storageB } = connect({ slides: { a: { title: 'A' }, b: { title: 'B' } } })
+    storageA.setState({ slides: { a: { title: 'A' }, b: { title: 'B' } } })
+
+    storageA.setIn(['slides', 'a', 'title'], 'Hi')
+    expect(storageB.state.slides).toEqual({ a: { title: 'Hi' }, b: { title: 'B' } })
+
+    storageB.setIn(['slides', 'b', 'title'], 'Bye')
+    expect(storageA.state.slides).toEqual({ a: { title: 'Hi' }, b: { title: 'Bye' } })
+  })
+
+  it('patches nested changes into the state', () => {
+    type Slide = { title: string, meta: { n: number } }
+    const { storageA, storageB } = connect({ slides: {} as { [id: string]: Slide } })
+    storageA.setState({ slides: { a: { title: 'A', meta: { n: 1 } }, b: { title: 'B', meta: { n: 2 } } } })
+    const b = storageB.state.slides.b
+
+    storageA.setIn(['slides', 'a', 'meta', 'n'], 3)
+    expect(storageB.state.slides.a).toEqual({ title: 'A', meta: { n: 3 } })
+    expect(storageB.state.slides.b).toBe(b)
+
+    storageA.setIn(['slides', 'c'], { title: 'C', meta: { n: 4 } })
+    storageA.setIn(['slides', 'c', 'meta', 'n'], 5)
+    expect(storageB.state.slides.c).toEqual({ title: 'C', meta: { n: 5 } })
+
+    storageA.setIn(['slides', 'a'], undefined)
+    expect(Object.keys(storageB.state.slides)).toEqual(['b', 'c'])
+    expect(storageB.state.slides.b).toBe(b)
+  })
+
+  it('ignores writes of readers, unless it is optimistic', async () => {
+    const { b, storageA, storageB } = connect({ count: 0 })
+    await b.setWritable(false)
+    const storageC = new Storage(val(b.getInvisiblePlugin('Test')), 'test', { count: 0 })
+
+    storageC.setState({ count: 1 })
+    expect(storageC.state.count).toBe(0)
+
+    storageB.setState({ count: 2 })
+    expect(storageB.state.count).toBe(2)
+    expect(storageA.state.count).toBe(0)
+
+    await b.setWritable(true)
+    expect(storageA.state.count).toBe(2)
+  })
+
+  it('rolls back optimistic writes after timeout', async () => {
+    vi.useFakeTimers()
+    try {
+      const a = createMockRoom({ isWritable: false })
+      const storage = new Storage(val(a.getInvisiblePlugin('Test')), 'test', { count: 0 }, { optimistic: true, timeout: 100 })
+      const rejected = vi.fn()
+      storage.on('rejected', rejected)
+
+      storage.setState({ count: 1 })
+      expect(storage.state.count).toBe(1)
+      vi.advanceTimersByTime(100)
+      expect(storage.state.count).toBe(0)
+      expect(rejected).toHaveBeenCalledOnce()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('syncs list operations by item', () => {
+    const { storageA, storageB } = connect({ list: [] as string[] })
+    const x = storageA.pushItem('list', 'x')!
+    const y = storageB.pushItem('list', 'y')!
+    expect(storageA.state.list).toEqual(['x', 'y'])
+
+    storageA.updateItem('list', x, 'X')
+    storageB.moveItem('list', y, 0)
+    expect(storageA.state.list).toEqual(['y', 'X'])
+    expect(storageB.state.list).toEqual(['y', 'X'])
+    expect(storageB.itemIds('list')).toEqual([y, x])
+
+    storageB.removeItem('list', y)
+    expect(storageA.state.list).toEqual(['X'])
+  })
+
+  it('stores lists as items sorted by order', () => {
+    const { a, storageA, storageB } = connect({ list: ['a'] })
+    const stored = () => toJS(a.getInvisiblePlugin('Test')!.attributes[kStorage].test.list)
+    const b = storageA.pushItem('list', 'b')!
+
+    const { items, ...rest } = stored()
+    expect(rest).toEqual({ __IsLiSt: 1 })
+    expect(Object.values(items)).toEqual([{ v: 'a', o: 1, k: expect.any(String) }, { v: 'b', o: 2, k: expect.any(String) }])
+    expect(storageB.itemIds('list')).toEqual(Object.keys(items))
+    expect(storageB.itemIds('list')[1]).toBe(b)
+
+    storageB.setState({ list: ['x', 'y'] })
+    expect(Object.values(stored().items)).toEqual([{ v: 'x', o: 1, k: expect.any(String) }, { v: 'y', o: 2, k: expect.any(String) }])
+    expect(storageA.state.list).toEqual(['x', 'y'])
+    expect(storageA.itemIds('list')).not.toContain(b)
+  })
+
+  it('moves items by fractional orders', () => {
+    const { a, storageA, storageB } = connect({ list: [] as string[] })
+    const [x, y, z] = ['x', 'y', 'z'].map(value => storageA.pushItem('list', value)!)
+    const order = (id: string) => a.getInvisiblePlugin('Test')!.attributes[kStorage].test.list.items[id].o
+
+    storageB.moveItem('list', z, 1)
+    expect(order(z)).toBe(1.5)
+    storageB.moveItem('list', x, 3)
+    expect(order(x)).toBe(3)
+    storageB.moveItem('list', y, 0)
+    expect(order(y)).toBe(0.5)
+    expect(storageA.state.list).toEqual(['y', 'z', 'x'])
+    expect(storageA.itemIds('list')).toEqual([y, z, x])
+  })
+
+  it('keeps the order of repeated moves between the same two items', () => {
+    const { storageA, storageB } = connect({ list: [] as string[] })
+    const ids = ['a', 'b', 'x', 'y'].map(value => storageA.pushItem('list', value)!)
+
+    // Move x and y in turn between a and the other one, each move halves the gap of orders.
+    for (let i = 0; i < 30; i++) {
+      const moving = ids[2 + i % 2]
+      storageB.moveItem('list', moving, 1)
+      expect(storageA.itemIds('list')[1]).toBe(moving)
+    }
+    expect(storageA.state.list).toEqual(['a', 'y', 'x', 'b'])
+    expect(storageB.state.list).toEqual(['a', 'y', 'x', 'b'])
+  })
+
+  it('sorts items of the same order by id', () => {
+    const { a, storageA, storageB } = connect({ list: [] as string[] })
+    storageA.pushItem('list', 'a', 'id-a')
+    storageA.pushItem('list', 'c', 'id-c')
+    storageA.pushItem('list', 'b', 'id-b')
+
+    // Two clients moved items to the same position at the same time.
+    const plugin = a.getInvisiblePlugin('Test')!
+    plugin.updateAttributes([kStorage, 'test', 'list', 'items', 'id-c', 'o'], 1.5)
+    plugin.updateAttributes([kStorage, 'test', 'list', 'items', 'id-b', 'o'], 1.5)
+    expect(storageA.state.list).toEqual(['a', 'b', 'c'])
+    expect(storageB.state.list).toEqual(['a', 'b', 'c'])
+
+    storageB.moveItem('list', 'id-c', 1)
+    expect(storageA.state.list).toEqual(['a', 'c', 'b'])
+    expect(storageA.itemIds('list')).toEqual(['id-a', 'id-c', 'id-b'])
+  })
+
+  it('stops syncing after dispose()', () => {
+    const { storageA, storageB } = connect({ count: 0 })
+    const disconnected = vi.fn()
+    storageB.on('disconnected', disconnected)
+    storageB.dispose()
+    expect(disconnected).toHaveBeenCalledOnce()
+
+    storageA.setState({ count: 1 })
+    expect(storageB.state.count).toBe(0)
+  })
+
+  it('measures the state as it is stored', () => {
+    const { a, storageA, storageB } = connect({ count: 0, slides: { a: { title: 'A' } }, list: [] as string[] })
+    const stored = () => byteSize(toJS(a.getInvisiblePlugin('Test')!.attributes[kStorage].test))
+
+    storageA.setState({ count: 1, slides: { a: { title: 'A' } } })
+    expect(storageB.size).toBe(stored())
+
+    storageA.setIn(['slides', 'b'], { title: 'B' })
+    storageA.pushItem('list', 'x')
+    const y = storageA.pushItem('list', '中文')!
+    storageA.pushItem('list', 'z')
+    storageB.moveItem('list', y, 0)
+    expect(storageA.size).toBe(stored())
+    expect(storageB.size).toBe(stored())
+
+    storageA.setState({ count: undefined })
+    expect(storageB.size).toBe(stored())
+  })
+})
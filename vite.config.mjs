@@ -4,5 +4,9 @@ import fs from 'node:fs'
 const pkg = JSON.parse(fs.readFileSync('./package.json', 'utf8'))
 
 export default defineConfig({
-  define: { '__VERSION__': `"${pkg.version}"` }
+  define: { '__VERSION__': `"${pkg.version}"` },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['src/testing/setup.ts'],
+  },
 })